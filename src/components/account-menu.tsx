@@ -0,0 +1,58 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { LogOut, User } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { signOut } from "@/lib/auth";
+import { clearActiveJob } from "@/lib/bulk-jobs";
+import { forgetConnections } from "@/lib/store-connection";
+
+interface AccountMenuProps {
+  email?: string;
+  disabled?: boolean;
+}
+
+export function AccountMenu({ email, disabled }: AccountMenuProps) {
+  const { toast } = useToast();
+  const [isSigningOut, setIsSigningOut] = useState(false);
+
+  const handleSignOut = async () => {
+    setIsSigningOut(true);
+    try {
+      // lo stato locale dell'utente non deve passare a chi accede dopo dallo stesso browser
+      clearActiveJob();
+      forgetConnections();
+      await signOut();
+    } catch (e) {
+      toast({ title: "Sign out failed", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+      setIsSigningOut(false);
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-xs text-muted-foreground max-w-48">
+          <User className="h-3 w-3 mr-1 shrink-0" />
+          <span className="truncate">{email ?? "Account"}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3" align="end">
+        <p className="text-xs text-muted-foreground">
+          Signed in as <span className="font-medium text-foreground break-all">{email}</span>
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={handleSignOut}
+          disabled={disabled || isSigningOut}
+          title={disabled ? "Wait for the current run to finish" : undefined}
+        >
+          <LogOut className="h-4 w-4 mr-2" />
+          Sign out
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -4,29 +4,108 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { AlertCircle, CheckCircle, ExternalLink } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertCircle, CheckCircle, ExternalLink, KeyRound, Loader2, Unplug, XCircle } from "lucide-react";
+import {
+  connectStore,
+  disconnectStore,
+  rotateConnectionKey,
+  StoreVerificationError,
+  type StoreConnection,
+} from "@/lib/store-connection";
 
 interface ApiConnectionProps {
-  onConnect: (credentials: { apiKey: string; storeName: string }) => void;
+  onConnect: (connection: StoreConnection) => void;
+  onRotate: (connection: StoreConnection) => void;
+  onDisconnect: () => void;
+  /** aggiunta di un altro store: torna alla connessione attiva senza salvare */
+  onCancel?: () => void;
   isConnected: boolean;
+  connection?: StoreConnection | null;
 }
 
-export function ApiConnection({ onConnect, isConnected }: ApiConnectionProps) {
+const errorTitles: Record<string, string> = {
+  invalid_credentials: "Invalid API key",
+  store_not_found: "Store not found",
+  validation_failed: "Missing credentials",
+  not_found: "Connection not found",
+  network_error: "Backend unreachable",
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString();
+
+export function ApiConnection({ onConnect, onRotate, onDisconnect, onCancel, isConnected, connection }: ApiConnectionProps) {
   const [apiKey, setApiKey] = useState("");
-  const [storeName, setStoreName] = useState("");
+  const [storeId, setStoreId] = useState("");
   const [isConnecting, setIsConnecting] = useState(false);
+  const [isRotating, setIsRotating] = useState(false);
+  const [isDisconnecting, setIsDisconnecting] = useState(false);
+  const [newApiKey, setNewApiKey] = useState<string | null>(null);
+  const [error, setError] = useState<{ title: string; message: string } | null>(null);
+
+  const showError = (e: unknown, fallbackTitle: string) => {
+    const code = e instanceof StoreVerificationError ? e.code : "";
+    setError({ title: errorTitles[code] ?? fallbackTitle, message: e instanceof Error ? e.message : String(e) });
+  };
 
   const handleConnect = async () => {
-    if (!apiKey.trim() || !storeName.trim()) return;
-    
+    if (!apiKey.trim() || !storeId.trim()) return;
+
     setIsConnecting(true);
-    // Simulate API connection delay
-    await new Promise(resolve => setTimeout(resolve, 1500));
-    
-    onConnect({ apiKey: apiKey.trim(), storeName: storeName.trim() });
-    setIsConnecting(false);
+    setError(null);
+    try {
+      const created = await connectStore(apiKey.trim(), storeId.trim());
+      // la chiave non resta nel browser, nemmeno nello stato del form
+      setApiKey("");
+      onConnect(created);
+    } catch (e) {
+      showError(e, "Verification failed");
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const handleRotate = async () => {
+    if (!connection || !newApiKey?.trim()) return;
+
+    setIsRotating(true);
+    setError(null);
+    try {
+      const rotated = await rotateConnectionKey(connection.id, newApiKey.trim());
+      setNewApiKey(null);
+      onRotate(rotated);
+    } catch (e) {
+      showError(e, "Key rotation failed");
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  const handleDisconnect = async () => {
+    if (!connection) return;
+
+    setIsDisconnecting(true);
+    setError(null);
+    try {
+      await disconnectStore(connection.id);
+      onDisconnect();
+    } catch (e) {
+      // già rimossa lato server: basta dimenticarla
+      if (e instanceof StoreVerificationError && e.code === "not_found") onDisconnect();
+      else showError(e, "Disconnect failed");
+    } finally {
+      setIsDisconnecting(false);
+    }
   };
 
+  const errorAlert = error && (
+    <Alert variant="destructive">
+      <XCircle className="h-4 w-4" />
+      <AlertTitle>{error.title}</AlertTitle>
+      <AlertDescription>{error.message}</AlertDescription>
+    </Alert>
+  );
+
   return (
     <Card className="w-full max-w-md mx-auto">
       <CardHeader className="text-center">
@@ -46,8 +125,66 @@ export function ApiConnection({ onConnect, isConnected }: ApiConnectionProps) {
               <span className="font-medium">Connected Successfully</span>
             </div>
             <Badge variant="secondary" className="bg-success/10 text-success border-success/20">
-              {storeName}
+              {connection?.store.name}
             </Badge>
+            {connection && (
+              <div className="text-xs text-muted-foreground space-y-2">
+                <p>
+                  Store ID {connection.store.id}
+                  {connection.store.currency && <> · {connection.store.currency}</>}
+                  {connection.store.platform && <> · {connection.store.platform}</>}
+                </p>
+                <div className="flex flex-wrap justify-center gap-1">
+                  {connection.store.salesChannels.map((channel) => (
+                    <Badge key={channel} variant="outline" className="text-xs">{channel}</Badge>
+                  ))}
+                </div>
+                <p>
+                  API key {connection.keyHint} ·{" "}
+                  {connection.rotatedAt ? `rotated ${formatDate(connection.rotatedAt)}` : `added ${formatDate(connection.createdAt)}`}
+                </p>
+              </div>
+            )}
+
+            {newApiKey !== null && (
+              <div className="space-y-2 text-left">
+                <Label htmlFor="newApiKey">New Gelato API Key</Label>
+                <Input
+                  id="newApiKey"
+                  type="password"
+                  placeholder="Must have access to the same store"
+                  value={newApiKey}
+                  onChange={(e) => setNewApiKey(e.target.value)}
+                />
+              </div>
+            )}
+
+            {errorAlert}
+
+            {connection && (
+              <div className="flex flex-wrap justify-center gap-2">
+                {newApiKey === null ? (
+                  <Button variant="outline" size="sm" onClick={() => { setError(null); setNewApiKey(""); }} disabled={isDisconnecting}>
+                    <KeyRound className="h-4 w-4 mr-2" />
+                    Rotate key
+                  </Button>
+                ) : (
+                  <>
+                    <Button size="sm" onClick={handleRotate} disabled={!newApiKey.trim() || isRotating}>
+                      {isRotating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <KeyRound className="h-4 w-4 mr-2" />}
+                      Save new key
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setNewApiKey(null)} disabled={isRotating}>
+                      Cancel
+                    </Button>
+                  </>
+                )}
+                <Button variant="outline" size="sm" onClick={handleDisconnect} disabled={isRotating || isDisconnecting}>
+                  {isDisconnecting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Unplug className="h-4 w-4 mr-2" />}
+                  Disconnect
+                </Button>
+              </div>
+            )}
           </div>
         ) : (
           <div className="space-y-4">
@@ -67,28 +204,42 @@ export function ApiConnection({ onConnect, isConnected }: ApiConnectionProps) {
             </div>
             
             <div className="space-y-2">
-              <Label htmlFor="storeName">Store Name</Label>
+              <Label htmlFor="storeId">Store ID</Label>
               <Input
-                id="storeName"
-                placeholder="Your store name"
-                value={storeName}
-                onChange={(e) => setStoreName(e.target.value)}
+                id="storeId"
+                placeholder="e.g. 0f3b1c2d-..."
+                value={storeId}
+                onChange={(e) => setStoreId(e.target.value)}
               />
             </div>
 
+            {errorAlert}
+
             <Button 
               onClick={handleConnect}
-              disabled={!apiKey.trim() || !storeName.trim() || isConnecting}
+              disabled={!apiKey.trim() || !storeId.trim() || isConnecting}
               className="w-full bg-gradient-to-r from-[hsl(var(--primary))] to-[hsl(var(--primary-glow))] hover:opacity-90 transition-opacity"
             >
-              {isConnecting ? "Connecting..." : "Connect Store"}
+              {isConnecting ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Verifying...
+                </>
+              ) : (
+                "Connect Store"
+              )}
             </Button>
+            {onCancel && (
+              <Button variant="ghost" onClick={onCancel} disabled={isConnecting} className="w-full">
+                Cancel
+              </Button>
+            )}
 
             <div className="flex items-start space-x-2 text-xs text-muted-foreground bg-muted/50 p-3 rounded-lg">
               <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
               <div>
                 <p className="font-medium">Secure Connection</p>
-                <p>Your API credentials are encrypted and never stored on our servers.</p>
+                <p>Your API key is encrypted on our servers and never stored in this browser.</p>
               </div>
             </div>
           </div>
@@ -0,0 +1,121 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Server } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  BACKEND_PRESETS,
+  getBackendOverride,
+  getBackendUrl,
+  getDefaultBackendUrl,
+  getUploadConcurrency,
+  setBackendOverride,
+  setUploadConcurrency,
+  type UploadConcurrency,
+} from "@/lib/backend-config";
+
+export function BackendSettings() {
+  const { toast } = useToast();
+  const [activeUrl, setActiveUrl] = useState(getBackendUrl());
+  const [draft, setDraft] = useState(getBackendOverride() ?? "");
+  const [concurrency, setConcurrency] = useState<UploadConcurrency>(getUploadConcurrency());
+
+  const activePreset = BACKEND_PRESETS.find((p) => p.url === activeUrl);
+
+  const apply = (url: string | null) => {
+    try {
+      setBackendOverride(url);
+    } catch (e) {
+      toast({ title: "Invalid backend URL", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+      return;
+    }
+    const next = getBackendUrl();
+    setActiveUrl(next);
+    setDraft(getBackendOverride() ?? "");
+    toast({ title: "Backend updated", description: next });
+  };
+
+  const updateConcurrency = (updates: Partial<UploadConcurrency>) => {
+    setUploadConcurrency({ ...concurrency, ...updates });
+    setConcurrency(getUploadConcurrency());
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-xs text-muted-foreground">
+          <Server className="h-3 w-3 mr-1" />
+          {activePreset?.label ?? "Custom"} backend
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4" align="end">
+        <div className="space-y-2">
+          <Label>Environment</Label>
+          <Select value={activePreset?.id ?? ""} onValueChange={(id) => apply(BACKEND_PRESETS.find((p) => p.id === id)?.url ?? null)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Custom URL" />
+            </SelectTrigger>
+            <SelectContent>
+              {BACKEND_PRESETS.map((p) => (
+                <SelectItem key={p.id} value={p.id}>
+                  {p.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="backendUrl">Custom backend URL</Label>
+          <Input
+            id="backendUrl"
+            placeholder={getDefaultBackendUrl()}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <Button size="sm" onClick={() => apply(draft)} disabled={!draft.trim()}>
+              Use URL
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => apply(null)}>
+              Reset
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="fileConcurrency" className="text-xs">Parallel files</Label>
+            <Input
+              id="fileConcurrency"
+              type="number"
+              min={1}
+              max={16}
+              value={concurrency.files}
+              onChange={(e) => updateConcurrency({ files: parseInt(e.target.value, 10) })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="partConcurrency" className="text-xs">Parallel chunks / file</Label>
+            <Input
+              id="partConcurrency"
+              type="number"
+              min={1}
+              max={16}
+              value={concurrency.parts}
+              onChange={(e) => updateConcurrency({ parts: parseInt(e.target.value, 10) })}
+            />
+          </div>
+        </div>
+
+        <Badge variant="secondary" className="max-w-full truncate font-mono text-[10px]" title={activeUrl}>
+          {activeUrl}
+        </Badge>
+      </PopoverContent>
+    </Popover>
+  );
+}
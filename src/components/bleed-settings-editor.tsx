@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Scissors } from "lucide-react";
+import { bleedGeometry, MAX_BLEED_MM, validateBleedSettings, type BleedFill, type BleedSettings, type OverlayRect } from "@/lib/bleed";
+import { getPlaceholder, type GelatoTemplate } from "@/lib/bulk-pipeline";
+import type { FitMode } from "@/lib/image-fit";
+import type { VariantQualityCheck } from "@/lib/print-quality";
+
+type PreviewImage = { id: string; name: string; preview: string };
+
+interface BleedSettingsEditorProps {
+  settings: BleedSettings;
+  onChange: (settings: BleedSettings) => void;
+  template: GelatoTemplate;
+  images: PreviewImage[];
+  /** assegnazione immagine → variante del piano, per mostrare il file giusto */
+  checks?: VariantQualityCheck[];
+  fitMode: FitMode;
+}
+
+const fillLabels: Record<BleedFill, string> = {
+  mirror: "Mirror edges",
+  blur: "Blurred extension",
+  solid: "Solid colour",
+};
+
+const objectFit: Record<FitMode, React.CSSProperties["objectFit"]> = {
+  stretch: "fill",
+  preserve: "contain",
+  exact: "cover",
+};
+
+const toStyle = (rect: OverlayRect): React.CSSProperties => ({
+  left: `${rect.left}%`,
+  top: `${rect.top}%`,
+  width: `${rect.width}%`,
+  height: `${rect.height}%`,
+});
+
+// Abbondanza e area sicura del template, con anteprima indicativa sulla variante scelta
+export function BleedSettingsEditor({ settings, onChange, template, images, checks = [], fitMode }: BleedSettingsEditorProps) {
+  const variants = useMemo(
+    () =>
+      (template.variants ?? []).flatMap((v) => {
+        const placeholder = getPlaceholder(v, template);
+        return placeholder?.width && placeholder?.height
+          ? [{ id: v.id, title: v.title, areaMm: { width: placeholder.width, height: placeholder.height } }]
+          : [];
+      }),
+    [template]
+  );
+  const [variantId, setVariantId] = useState<string | undefined>();
+  const variant = variants.find((v) => v.id === variantId) ?? variants[0];
+
+  const assignedId = checks.find((c) => c.templateVariantId === variant?.id)?.imageId;
+  const image = images.find((img) => img.id === assignedId) ?? images[0];
+  const error = validateBleedSettings(settings);
+  const geometry = variant ? bleedGeometry(variant.areaMm, settings) : null;
+
+  const setMm = (key: "bleedMm" | "safeMm", raw: string) => {
+    const n = parseFloat(raw);
+    onChange({ ...settings, [key]: Number.isFinite(n) ? Math.max(0, n) : 0 });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Scissors className="h-5 w-5" />
+          <span>Bleed &amp; Safe Area</span>
+        </CardTitle>
+        <CardDescription>
+          Bleed is added around each print area when the image is prepared; keep important details inside the safe area
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="bleed-mm" className="text-xs">Bleed (mm per side)</Label>
+            <Input
+              id="bleed-mm"
+              type="number"
+              min={0}
+              max={MAX_BLEED_MM}
+              step={0.5}
+              className="w-28"
+              value={settings.bleedMm}
+              onChange={(e) => setMm("bleedMm", e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="safe-mm" className="text-xs">Safe area (mm inside trim)</Label>
+            <Input
+              id="safe-mm"
+              type="number"
+              min={0}
+              step={0.5}
+              className="w-28"
+              value={settings.safeMm}
+              onChange={(e) => setMm("safeMm", e.target.value)}
+            />
+          </div>
+          {settings.fill === "solid" && (
+            <div className="space-y-1">
+              <Label htmlFor="bleed-color" className="text-xs">Fill colour</Label>
+              <Input
+                id="bleed-color"
+                type="color"
+                className="w-16 p-1"
+                value={settings.color}
+                onChange={(e) => onChange({ ...settings, color: e.target.value })}
+              />
+            </div>
+          )}
+        </div>
+
+        <RadioGroup
+          value={settings.fill}
+          onValueChange={(value: BleedFill) => onChange({ ...settings, fill: value })}
+          className="flex flex-wrap gap-6"
+          disabled={!settings.bleedMm}
+        >
+          {(Object.keys(fillLabels) as BleedFill[]).map((fill) => (
+            <div key={fill} className="flex items-center gap-2">
+              <RadioGroupItem value={fill} id={`bleed-${fill}`} />
+              <Label htmlFor={`bleed-${fill}`} className={!settings.bleedMm ? "text-muted-foreground" : undefined}>
+                {fillLabels[fill]}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        {variant && geometry && image ? (
+          <div className="space-y-3">
+            <Select value={variant.id} onValueChange={setVariantId}>
+              <SelectTrigger className="w-72 text-xs">
+                <SelectValue placeholder="Choose a variant" />
+              </SelectTrigger>
+              <SelectContent>
+                {variants.map((v) => (
+                  <SelectItem key={v.id} value={v.id} className="text-xs">
+                    {v.title} · {v.areaMm.width}×{v.areaMm.height} mm
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <div
+              className="relative w-full max-w-xs overflow-hidden rounded border bg-muted"
+              style={{ aspectRatio: `${geometry.totalMm.width} / ${geometry.totalMm.height}` }}
+            >
+              {settings.bleedMm > 0 && settings.fill === "solid" && (
+                <div className="absolute inset-0" style={{ backgroundColor: settings.color }} />
+              )}
+              {settings.bleedMm > 0 && settings.fill !== "solid" && (
+                <img
+                  src={image.preview}
+                  alt=""
+                  className="absolute inset-0 h-full w-full opacity-60"
+                  style={{ objectFit: "cover", filter: settings.fill === "blur" ? "blur(6px)" : undefined }}
+                />
+              )}
+              <img
+                src={image.preview}
+                alt={image.name}
+                className="absolute bg-white"
+                style={{ ...toStyle(geometry.trim), objectFit: objectFit[fitMode] }}
+              />
+              <div className="absolute border border-dashed border-destructive" style={toStyle(geometry.trim)} />
+              <div className="absolute border border-success" style={toStyle(geometry.safe)} />
+            </div>
+
+            <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <span className="inline-block h-0 w-4 border-t border-dashed border-destructive" /> Trim line
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="inline-block h-0 w-4 border-t border-success" /> Safe area
+              </span>
+              <span>
+                File size {geometry.totalMm.width}×{geometry.totalMm.height} mm · {image.name}
+              </span>
+            </div>
+            <p className="text-xs text-muted-foreground">Indicative preview: the bleed fill is rendered exactly only in the uploaded file.</p>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">This template does not report print area sizes, so no bleed can be added.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
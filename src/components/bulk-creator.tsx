@@ -1,17 +1,67 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { StepCard } from "@/components/ui/step-card";
 import { ApiConnection } from "@/components/api-connection";
 import { ImageUploader } from "@/components/image-uploader";
 import { ProductSelector } from "@/components/product-selector";
 import { ProductRules } from "@/components/product-rules";
+import { PlanPreview } from "@/components/plan-preview";
+import { RatioRulesEditor } from "@/components/ratio-rules-editor";
+import { BleedSettingsEditor } from "@/components/bleed-settings-editor";
+import { BackendSettings } from "@/components/backend-settings";
+import { UploadSessions } from "@/components/upload-sessions";
+import { UploadThroughput } from "@/components/upload-throughput";
+import { RunReport } from "@/components/run-report";
+import { JobMonitor } from "@/components/job-monitor";
+import { JobResultsTable } from "@/components/job-results-table";
+import { PublishSettings } from "@/components/publish-settings";
+import { StoreSwitcher } from "@/components/store-switcher";
+import { AccountMenu } from "@/components/account-menu";
+import { PrintQualityReport } from "@/components/print-quality-report";
+import { UpscalePreview } from "@/components/upscale-preview";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { CheckCircle, Loader2, Package, Rocket } from "lucide-react";
+import { CheckCircle, ClipboardList, Loader2, Package, Pause, Play, Rocket, XCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-
-const STORE_ID = import.meta.env.VITE_GELATO_STORE_ID as string | undefined;
+import {
+  buildPlan,
+  getCleanBaseTitle,
+  isUuid,
+  PipelineCancelledError,
+  planUploadOutputs,
+  runBulkPipeline,
+  type GelatoTemplate,
+  type GroupRunRecord,
+  type PipelineEvent,
+  type ProductResult,
+  type ProductRulesType,
+} from "@/lib/bulk-pipeline";
+import { createWorkerAdapters } from "@/lib/pipeline-adapters";
+import { jobResults, type BulkJobStatus } from "@/lib/bulk-jobs";
+import {
+  loadActiveConnectionId,
+  loadConnectionIds,
+  loadConnections,
+  saveActiveConnectionId,
+  saveConnectionIds,
+  type StoreConnection,
+} from "@/lib/store-connection";
+import { loadRulesPreset, saveRulesPreset } from "@/lib/rule-presets";
+import { loadPublishOptions, savePublishOptions, validatePublishOptions, type PublishOptions } from "@/lib/publish-options";
+import {
+  loadPrintQualityThresholds,
+  savePrintQualityThresholds,
+  validatePrintQuality,
+  type PrintQualityThresholds,
+} from "@/lib/print-quality";
+import { getUploadConcurrency } from "@/lib/backend-config";
+import type { UploadProgress } from "@/lib/upload-engine";
+import { RunController } from "@/lib/run-control";
+import type { ImageProcessingOptions } from "@/lib/image-fit";
+import { colorIssues } from "@/lib/color-profile";
+import { DEFAULT_BLEED_SETTINGS, loadBleedSettings, saveBleedSettings, validateBleedSettings, type BleedSettings } from "@/lib/bleed";
+import { DEFAULT_RATIO_RULES, loadRatioRules, saveRatioRules, type RatioRule } from "@/lib/ratio-rules";
 
 type ImageFile = {
   id: string;
@@ -19,6 +69,12 @@ type ImageFile = {
   preview: string;
   name: string;
   size: string;
+  width?: number;
+  height?: number;
+  dpi?: number;
+  colorSpace?: string;
+  iccProfile?: string;
+  bitDepth?: number;
 };
 
 type Product = {
@@ -29,21 +85,6 @@ type Product = {
   printAreas: string[];
 };
 
-type ProductRulesType = {
-  titleMode: "filename" | "ai-simple" | "ai-compound";
-  titleMaxWords: number;
-  titleCustomText: string;
-  descriptionMode: "copy" | "ai";
-  descriptionParagraphs: number;
-  descriptionSentences: number;
-  descriptionCustomHTML: string;
-  tagsMode: "copy" | "ai";
-  tagsMaxCount: number;
-  tagsCustom: string[];
-  includeCustomTitle: boolean;
-  includeCustomDescription: boolean;
-};
-
 const defaultRules: ProductRulesType = {
   titleMode: "filename", 
   titleMaxWords: 8,
@@ -59,164 +100,202 @@ const defaultRules: ProductRulesType = {
   includeCustomDescription: false,
 };
 
-const isUuid = (s?: string) =>
-  !!s?.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i);
-
-function getFileRatioTag(filename: string): string {
-  const lower = filename.toLowerCase();
-  if (lower.includes('(3x4)') || lower.includes('3x4')) return '3x4';
-  if (lower.includes('(5x7)') || lower.includes('5x7') || lower.includes('iso')) return '5x7';
-  if (lower.includes('(1x1)') || lower.includes('1x1')) return '1x1';
-  return 'default';
+interface BulkCreatorProps {
+  /** utente Supabase collegato, mostrato nel menu account */
+  userEmail?: string;
 }
 
-function getCleanBaseTitle(filename: string): string {
-  let base = filename.replace(/\.[^/.]+$/, ""); 
-  base = base.replace(/\s*(?:\bISO\b)?\s*\([^)]*\)/i, '').trim(); 
-  return base.charAt(0).toUpperCase() + base.slice(1);
-}
-
-function getVariantRatioTag(variantTitle: string): string {
-  const lower = (variantTitle || "").toLowerCase();
-  if (lower.includes('30x40') || lower.includes('40x30') || lower.includes('60x45') || lower.includes('75x100')) return '3x4';
-  if (lower.includes('50x70') || lower.includes('70x50') || lower.includes('100x140') || lower.includes('140x100')) return '5x7';
-  if (lower.includes('30x30') || lower.includes('50x50') || lower.includes('100x100') || lower.includes('70x70')) return '1x1';
-  return 'default';
-}
-
-// ==========================================
-// MOTORE DI UPLOAD MULTIPART BLINDATO 
-// ==========================================
-async function uploadOriginalFile(file: File, exactFileName: string) {
-  const BASE_URL = "https://gelato-backend.andrea-bilotta00.workers.dev";
-  const CHUNK_SIZE = 6 * 1024 * 1024; // 6MB Esatti (aggira il limite RAM del Worker e R2)
-  
-  // 1. Inizializza
-  const startRes = await fetch(`${BASE_URL}/upload-start?filename=${encodeURIComponent(exactFileName)}`, { method: "POST" });
-  if (!startRes.ok) {
-    const errObj = await startRes.json().catch(() => ({}));
-    throw new Error(`Errore Inizio Upload: ${errObj.error || await startRes.text()}`);
-  }
-  
-  const { uploadId, key } = await startRes.json();
-  const encodedUploadId = encodeURIComponent(uploadId);
-  const encodedKey = encodeURIComponent(key);
-
-  const parts = [];
-  const totalChunks = Math.ceil(file.size / CHUNK_SIZE);
-
-  // 2. Invia Fette da 6MB con Retry Automatico
-  for (let i = 0; i < totalChunks; i++) {
-    const start = i * CHUNK_SIZE;
-    const end = Math.min(start + CHUNK_SIZE, file.size);
-    const chunk = file.slice(start, end);
-    const partNumber = i + 1;
-
-    let partData = null;
-    let retries = 3; // Ritenta 3 volte se cade la connessione a metà
-    let lastError = "";
-
-    while (retries > 0) {
-      try {
-        const partRes = await fetch(`${BASE_URL}/upload-part?uploadId=${encodedUploadId}&key=${encodedKey}&partNumber=${partNumber}`, {
-          method: "POST",
-          headers: { "Content-Type": "application/octet-stream" },
-          body: chunk
-        });
-
-        if (!partRes.ok) {
-          const errObj = await partRes.json().catch(() => ({}));
-          throw new Error(errObj.error || `Codice ${partRes.status}`);
-        }
-        
-        partData = await partRes.json();
-        break; // Successo, esci dal ciclo while
-      } catch (e: any) {
-        lastError = e.message;
-        retries--;
-        if (retries === 0) throw new Error(`Fallito chunk ${partNumber}/${totalChunks}: ${lastError}`);
-        await new Promise(res => setTimeout(res, 1000)); // Aspetta 1 secondo e riprova
-      }
-    }
-    
-    parts.push(partData);
-  }
-
-  // 3. Completa e Assembla su R2
-  const completeRes = await fetch(`${BASE_URL}/upload-complete?uploadId=${encodedUploadId}&key=${encodedKey}`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ parts })
-  });
-
-  if (!completeRes.ok) {
-    const errObj = await completeRes.json().catch(() => ({}));
-    throw new Error(`Errore Assemblaggio: ${errObj.error || await completeRes.text()}`);
-  }
-  
-  const finalData = await completeRes.json();
-  return finalData.url; 
-}
-
-
-export function BulkCreator() {
+export function BulkCreator({ userEmail }: BulkCreatorProps) {
   const { toast } = useToast();
   const [currentStep, setCurrentStep] = useState(1);
 
-  const [isConnected, setIsConnected] = useState(false);
-  const [credentials, setCredentials] = useState<{ apiKey: string; storeName: string } | null>(null);
+  // connessioni salvate (multi-store) e quella attiva: template, preset e chiamate seguono lo store attivo
+  const [connections, setConnections] = useState<StoreConnection[]>([]);
+  const [activeConnectionId, setActiveConnectionId] = useState<string | null>(null);
+  const [addingStore, setAddingStore] = useState(false);
+  const credentials = connections.find((c) => c.id === activeConnectionId) ?? null;
+  const isConnected = !!credentials;
+  const activeStoreId = credentials?.store.id;
 
   const [images, setImages] = useState<ImageFile[]>([]);
-  const [processingOptions, setProcessingOptions] = useState({
+  const [processingOptions, setProcessingOptions] = useState<ImageProcessingOptions>({
     upscale: true,
-    fitMode: "stretch" as "stretch" | "preserve" | "exact",
+    fitMode: "stretch",
   });
 
   const [selectedProduct, setSelectedProduct] = useState<Product | undefined>();
   const [rules, setRules] = useState<ProductRulesType>(defaultRules);
   const [isCreating, setIsCreating] = useState(false);
   const [creationProgress, setCreationProgress] = useState(0);
-  const [createdProducts, setCreatedProducts] = useState<any[]>([]);
-  const [template, setTemplate] = useState<any | null>(null);
+  const [createdProducts, setCreatedProducts] = useState<ProductResult[]>([]);
+  const [template, setTemplate] = useState<GelatoTemplate | null>(null);
+  const [showPlan, setShowPlan] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<Record<string, UploadProgress[]>>({});
+  const [isPaused, setIsPaused] = useState(false);
+  const [cancelledRun, setCancelledRun] = useState<GroupRunRecord[] | null>(null);
+  const runControllerRef = useRef<RunController | null>(null);
+  const [uploadStats, setUploadStats] = useState<{ loaded: number; total: number; startedAt: number } | null>(null);
+  const [ratioRules, setRatioRules] = useState<RatioRule[]>(DEFAULT_RATIO_RULES);
+  const [bleedSettings, setBleedSettings] = useState<BleedSettings>(DEFAULT_BLEED_SETTINGS);
+  const [jobStatus, setJobStatus] = useState<BulkJobStatus | null>(null);
+  const [publishOptions, setPublishOptions] = useState<PublishOptions>(loadPublishOptions);
+  const [qualityThresholds, setQualityThresholds] = useState<PrintQualityThresholds>(loadPrintQualityThresholds);
 
   useEffect(() => {
-    try {
-      const raw = localStorage.getItem("gelato.creds");
-      if (raw) {
-        const c = JSON.parse(raw);
-        setCredentials(c);
-        setIsConnected(true);
-        setCurrentStep(2);
-      }
-    } catch {}
+    // nel browser ci sono solo gli id delle connessioni: i metadati arrivano dal backend
+    const ids = loadConnectionIds();
+    let cancelled = false;
+    loadConnections(ids).then(({ connections: loaded, missing }) => {
+      if (cancelled) return;
+      if (missing.length) saveConnectionIds(ids.filter((id) => !missing.includes(id)));
+      if (!loaded.length) return;
+      const savedActive = loadActiveConnectionId();
+      const active = loaded.find((c) => c.id === savedActive) ?? loaded[0];
+      setConnections(loaded);
+      setActiveConnectionId(active.id);
+      setCurrentStep(2);
+    });
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
-  const handleConnect = (creds: { apiKey: string; storeName: string }) => {
-    setCredentials(creds);
-    setIsConnected(true);
-    setCurrentStep(2);
-    try {
-      localStorage.setItem("gelato.creds", JSON.stringify(creds));
-    } catch {}
-    toast({ title: "Connected Successfully!", description: `Connected to ${creds.storeName} via Gelato API` });
+  const activateConnection = (id: string | null) => {
+    setActiveConnectionId(id);
+    saveActiveConnectionId(id);
+  };
+
+  const handleConnect = (connection: StoreConnection) => {
+    const next = [...connections.filter((c) => c.id !== connection.id), connection];
+    setConnections(next);
+    saveConnectionIds(next.map((c) => c.id));
+    activateConnection(connection.id);
+    setAddingStore(false);
+    setSelectedProduct(undefined);
+    setTemplate(null);
+    setCurrentStep(images.length > 0 ? 3 : 2);
+    toast({ title: "Connected Successfully!", description: `Connected to ${connection.store.name} via Gelato API` });
   };
 
+  const handleRotate = (connection: StoreConnection) => {
+    setConnections((prev) => prev.map((c) => (c.id === connection.id ? connection : c)));
+    toast({ title: "API key rotated", description: `${connection.store.name} now uses the key ${connection.keyHint}` });
+  };
+
+  const handleDisconnect = () => {
+    const next = connections.filter((c) => c.id !== activeConnectionId);
+    setConnections(next);
+    saveConnectionIds(next.map((c) => c.id));
+    activateConnection(next[0]?.id ?? null);
+    setSelectedProduct(undefined);
+    setTemplate(null);
+    if (!next.length) setCurrentStep(1);
+    toast({ title: "Disconnected", description: "The stored API key has been deleted" });
+  };
+
+  // Cambio store: il template scelto appartiene al vecchio store, va riselezionato
+  const handleSelectStore = (id: string) => {
+    if (id === activeConnectionId) return;
+    activateConnection(id);
+    setAddingStore(false);
+    setSelectedProduct(undefined);
+    setTemplate(null);
+    setCurrentStep(images.length > 0 ? 3 : 2);
+    const store = connections.find((c) => c.id === id)?.store;
+    if (store) toast({ title: "Store attivo", description: store.name });
+  };
+
+  const handleAddStore = () => {
+    setAddingStore(true);
+    setCurrentStep(1);
+  };
+
+  // Preset delle regole (per utente) e opzioni di pubblicazione sono salvati per store
+  useEffect(() => {
+    let cancelled = false;
+    setRules(defaultRules);
+    loadRulesPreset(activeStoreId, defaultRules)
+      .then((preset) => {
+        if (!cancelled) setRules(preset);
+      })
+      .catch((e) => console.warn("[settings] Cannot load rules preset:", e));
+    setPublishOptions(loadPublishOptions(activeStoreId));
+    setQualityThresholds(loadPrintQualityThresholds(activeStoreId));
+    return () => {
+      cancelled = true;
+    };
+  }, [activeStoreId]);
+
   const handleImagesChange = (newImages: ImageFile[]) => {
     setImages(newImages);
     setCurrentStep((prev) => (newImages.length > 0 ? Math.max(prev, 3) : prev));
   };
 
-  const handleProductSelect = (product: Product) => {
+  const handleProductSelect = (product: Product, tpl?: GelatoTemplate) => {
     setSelectedProduct(product);
+    if (tpl) setTemplate(tpl);
     setCurrentStep((prev) => Math.max(prev, 4));
   };
 
-  const handleSaveRules = () => {
-    toast({ title: "Rules Saved", description: "Product creation rules have been saved successfully" });
+  // La tabella ratio e l'abbondanza sono salvate per utente, store e template
+  useEffect(() => {
+    if (!template?.id) return;
+    let cancelled = false;
+    setRatioRules(DEFAULT_RATIO_RULES);
+    setBleedSettings(DEFAULT_BLEED_SETTINGS);
+    Promise.all([loadRatioRules(template.id, activeStoreId), loadBleedSettings(template.id, activeStoreId)])
+      .then(([savedRules, savedBleed]) => {
+        if (cancelled) return;
+        setRatioRules(savedRules);
+        setBleedSettings(savedBleed);
+      })
+      .catch((e) => console.warn("[settings] Cannot load template settings:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [template?.id, activeStoreId]);
+
+  const handleRatioRulesChange = (next: RatioRule[]) => {
+    setRatioRules(next);
+    if (template?.id && activeStoreId) saveRatioRules(template.id, next, activeStoreId);
+  };
+
+  const handleBleedSettingsChange = (next: BleedSettings) => {
+    setBleedSettings(next);
+    if (template?.id && activeStoreId) saveBleedSettings(template.id, next, activeStoreId);
+  };
+
+  const handlePublishOptionsChange = (next: PublishOptions) => {
+    setPublishOptions(next);
+    savePublishOptions(next, activeStoreId);
+  };
+
+  const handleQualityThresholdsChange = (next: PrintQualityThresholds) => {
+    setQualityThresholds(next);
+    savePrintQualityThresholds(next, activeStoreId);
+  };
+
+  // DPI effettivi per variante: dipendono dal template caricato e dal fit mode scelto
+  const qualityReport = useMemo(
+    () =>
+      template?.variants?.length
+        ? validatePrintQuality(images, template, rules, processingOptions.fitMode, qualityThresholds, ratioRules)
+        : null,
+    [images, template, rules, processingOptions.fitMode, qualityThresholds, ratioRules]
+  );
+
+  const handleSaveRules = async () => {
+    if (!credentials) return;
+    try {
+      await saveRulesPreset(credentials.store.id, rules);
+      toast({ title: "Rules Saved", description: `Preset saved for ${credentials.store.name}` });
+    } catch (e) {
+      toast({ title: "Rules not saved", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+    }
   };
 
   const handleCreateProducts = async () => {
-    if (!images.length || !selectedProduct) return;
+    if (!images.length || !selectedProduct || !credentials) return;
 
     if (!isUuid(selectedProduct.id)) {
       toast({
@@ -227,111 +306,132 @@ export function BulkCreator() {
       return;
     }
 
-    setIsCreating(true);
-    setCreationProgress(0);
+    const publishError = validatePublishOptions(publishOptions);
+    if (publishError) {
+      toast({ title: "Opzioni di pubblicazione", description: publishError, variant: "destructive" });
+      return;
+    }
 
-    try {
-      const FALLBACK_TEMPLATE_ID = import.meta.env.VITE_GELATO_TEMPLATE_ID as string | undefined;
-      const chosenTemplateId = (isUuid(selectedProduct.id) ? selectedProduct.id : undefined) || FALLBACK_TEMPLATE_ID;
+    const bleedError = validateBleedSettings(bleedSettings);
+    if (bleedError) {
+      toast({ title: "Abbondanza", description: bleedError, variant: "destructive" });
+      return;
+    }
 
-      if (!chosenTemplateId) throw new Error("Template ID mancante o non valido");
+    // file che il browser non sa decodificare bloccano; CMYK e 16 bit vengono solo segnalati
+    const colorProblems = images.map((img) => ({ img, issues: colorIssues(img) })).filter((p) => p.issues.length);
+    const undecodable = colorProblems.filter((p) => p.issues.some((i) => i.level === "error"));
+    if (undecodable.length) {
+      toast({
+        title: "File non supportati",
+        description: `${undecodable.map((p) => p.img.name).join(", ")}: profondità colore non supportata. Esporta a 8 o 16 bit.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (colorProblems.length) {
+      // solo i derivati adattati all'area di stampa passano dal canvas sRGB; gli originali restano com'erano
+      const outputs = template?.variants?.length
+        ? planUploadOutputs(images, template, rules, ratioRules, processingOptions)
+        : null;
+      const converted = colorProblems.filter((p) => outputs?.converted.has(p.img.id)).length;
+      const original = colorProblems.filter((p) => outputs?.original.has(p.img.id)).length;
+      toast({
+        title: "Profili colore",
+        description: outputs
+          ? [
+              converted && `${converted} file CMYK o a 16 bit verranno convertiti in sRGB a 8 bit nei derivati: i colori potrebbero cambiare.`,
+              original && `${original} file CMYK o a 16 bit verranno caricati invariati, con il loro profilo, dove l'area di stampa non ha dimensioni.`,
+            ]
+              .filter(Boolean)
+              .join(" ")
+          : `${colorProblems.length} file CMYK o a 16 bit: i derivati adattati all'area di stampa vengono convertiti in sRGB a 8 bit, gli originali caricati invariati mantengono il loro profilo.`,
+      });
+    }
 
-      // 1. OTTENGO IL TEMPLATE
-      const tplRes = await fetch(`https://gelato-backend.andrea-bilotta00.workers.dev/gelato-get-template?templateId=${chosenTemplateId}`);
-      if (!tplRes.ok) throw new Error("Errore nel download del Template da Gelato");
-      const tpl = await tplRes.json();
-      setTemplate(tpl);
+    if (qualityReport?.blocked) {
+      toast({
+        title: "Qualità di stampa insufficiente",
+        description: `${qualityReport.counts.fail} varianti sotto ${qualityThresholds.failBelowDpi} DPI. Carica immagini più grandi o disattiva il blocco.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (qualityReport && qualityReport.counts.fail + qualityReport.counts.warn > 0) {
+      toast({
+        title: "Qualità di stampa",
+        description: `${qualityReport.counts.fail + qualityReport.counts.warn} varianti sotto ${qualityThresholds.warnBelowDpi} DPI: la stampa potrebbe risultare sgranata.`,
+      });
+    }
 
-      const tplVariants: any[] = tpl?.variants ?? [];
-      if (!tplVariants.length) {
-        throw new Error("Nessuna variante trovata in questo template.");
+    setIsCreating(true);
+    setCreationProgress(0);
+    setIsPaused(false);
+    setCancelledRun(null);
+    const controller = new RunController();
+    runControllerRef.current = controller;
+
+    // Progresso per unità (originale o derivato): la fase di upload occupa lo 0–50% della barra.
+    // Il totale parte dalle dimensioni degli originali e si corregge con quella reale dei derivati.
+    const byUnit: Record<string, { imageId: string; progress: UploadProgress }> = {};
+    const bytesByUnit: Record<string, number> = {};
+    const startedAt = Date.now();
+    setUploadProgress({});
+    setUploadStats(null);
+    setJobStatus(null);
+    let jobSubmitted = false;
+
+    const onPipelineEvent = (event: PipelineEvent) => {
+      if (event.type === "template-loaded") setTemplate(event.template);
+      if (event.type === "uploads-planned") {
+        for (const unit of event.units) bytesByUnit[unit.uploadKey] = unit.bytes;
+        setUploadStats({ loaded: 0, total: Object.values(bytesByUnit).reduce((n, b) => n + b, 0), startedAt });
       }
-
-      // 2. RAGGRUPPAMENTO SMART 
-      const groupedProducts: Record<string, Record<string, ImageFile>> = {};
-      for (const img of images) {
-        const baseTitle = getCleanBaseTitle(img.name);
-        const ratioTag = getFileRatioTag(img.name);
-        if (!groupedProducts[baseTitle]) groupedProducts[baseTitle] = {};
-        groupedProducts[baseTitle][ratioTag] = img;
+      if (event.type === "upload-progress") {
+        byUnit[event.uploadKey] = { imageId: event.imageId, progress: event.progress };
+        bytesByUnit[event.uploadKey] = event.progress.total;
+        const loaded = Object.values(byUnit).reduce((n, u) => n + u.progress.loaded, 0);
+        const total = Object.values(bytesByUnit).reduce((n, b) => n + b, 0);
+        const forImage = Object.values(byUnit).filter((u) => u.imageId === event.imageId).map((u) => u.progress);
+        setUploadProgress((prev) => ({ ...prev, [event.imageId]: forImage }));
+        setUploadStats({ loaded, total, startedAt });
+        setCreationProgress(total ? (loaded / total) * 50 : 0);
       }
-
-      // 3. UPLOAD SEQUENZIALE
-      const products = [];
-      let processedGroups = 0;
-      const totalGroups = Object.keys(groupedProducts).length;
-
-      for (const [baseTitle, fileMap] of Object.entries(groupedProducts)) {
-        let title: string;
-        if (rules.titleMode === "filename") title = baseTitle;
-        else if (rules.titleMode === "ai-simple") title = `AI Generated Title ${processedGroups + 1}`;
-        else title = `Custom Product ${processedGroups + 1}`;
-        
-        if (rules.includeCustomTitle && rules.titleCustomText) {
-          title += ` ${rules.titleCustomText}`;
-        }
-
-        const uploadedUrls: Record<string, string> = {};
-        
-        for (const [ratioTag, imageObj] of Object.entries(fileMap)) {
-           let exactFileName = `${baseTitle}.jpg`; 
-           if (ratioTag === '3x4') exactFileName = `${baseTitle} (3x4).jpg`;
-           if (ratioTag === '5x7') exactFileName = `${baseTitle} ISO (5x7).jpg`;
-
-           // Motore Multipart (6MB)
-           const publicUrl = await uploadOriginalFile(imageObj.file, exactFileName);
-           uploadedUrls[ratioTag] = publicUrl;
-        }
-
-        const variantsPayload = [];
-        for (const v of tplVariants) {
-          const placeholderName = v?.imagePlaceholders?.[0]?.name || tpl?.imagePlaceholders?.[0]?.name || "front";
-          const variantRatio = getVariantRatioTag(v.title);
-          const matchedUrl = uploadedUrls[variantRatio] || uploadedUrls['default'] || Object.values(uploadedUrls)[0];
-
-          variantsPayload.push({
-            templateVariantId: v.id,
-            imagePlaceholders: [{ name: placeholderName, fileUrl: matchedUrl }],
-          });
-        }
-
-        products.push({
-          title,
-          description: rules.descriptionCustomHTML || "Generated by Gelato Bulk Creator",
-          tags: rules.tagsCustom.length > 0 ? rules.tagsCustom : ["gelato", "bulk-created"],
-          variants: variantsPayload,
-        });
-
-        processedGroups++;
-        setCreationProgress((processedGroups / totalGroups) * 50); 
+      // Creazione su Gelato: 50–100% in base agli item del job conclusi
+      if (event.type === "job-progress") {
+        jobSubmitted = true;
+        setJobStatus(event.job);
+        setCreatedProducts(jobResults(event.job));
+        setCreationProgress(50 + (event.job.total ? (event.job.completed / event.job.total) * 50 : 0));
       }
+    };
 
-      // 4. CREAZIONE PRODOTTI IN GELATO
-      const createRes = await fetch("https://gelato-backend.andrea-bilotta00.workers.dev/gelato-bulk-create", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          templateId: tpl.id,
-          publish: true,
-          products,
-          storeId: STORE_ID,
-          salesChannels: ["shopify"],
-        })
-      });
+    const concurrency = getUploadConcurrency();
 
-      if (!createRes.ok) {
-        const errObj = await createRes.json().catch(() => ({}));
-        throw new Error(`Gelato API: ${errObj.error || await createRes.text()}`);
-      }
-      
-      const data = await createRes.json();
-      const results = data.results || [];
-      setCreatedProducts(results);
+    try {
+      const summary = await runBulkPipeline(
+        {
+          templateId: selectedProduct.id,
+          images,
+          rules,
+          publish: publishOptions.publish,
+          storeId: credentials.store.id,
+          connectionId: credentials.id,
+          salesChannels: publishOptions.publish ? publishOptions.salesChannels : [],
+          ratioRules,
+          processing: { ...processingOptions, bleed: bleedSettings },
+          fileConcurrency: concurrency.files,
+          control: controller,
+        },
+        createWorkerAdapters({ partConcurrency: concurrency.parts, connectionId: credentials.id }),
+        onPipelineEvent
+      );
+
+      setCreatedProducts(summary.results);
       setCreationProgress(100);
       setIsCreating(false);
 
-      const successCount = results.filter((r: any) => r.status === "active" || r.status === "created_in_background").length;
-      const errorCount = results.filter((r: any) => r.status === "error").length;
+      const { successCount, errorCount } = summary;
 
       if (successCount > 0) {
         toast({
@@ -346,6 +446,18 @@ export function BulkCreator() {
         });
       }
     } catch (error: any) {
+      if (error instanceof PipelineCancelledError) {
+        setIsCreating(false);
+        setCreationProgress(0);
+        setCancelledRun(error.groups);
+        toast({
+          title: "Creazione annullata",
+          description: jobSubmitted
+            ? "I prodotti non ancora avviati non verranno creati; quelli già in lavorazione su Gelato vengono completati."
+            : "Gli upload in corso sono stati interrotti.",
+        });
+        return;
+      }
       console.error("Errore irreversibile:", error);
       setIsCreating(false);
       setCreationProgress(0);
@@ -358,13 +470,35 @@ export function BulkCreator() {
     }
   };
 
+  // Piano dry-run: calcolato dal template già caricato, nessun upload
+  const plan = useMemo(
+    () =>
+      template?.variants?.length
+        ? buildPlan(images, template, rules, ratioRules, { ...processingOptions, bleed: bleedSettings })
+        : null,
+    [images, template, rules, ratioRules, processingOptions, bleedSettings]
+  );
+
+  const handlePauseToggle = () => {
+    const controller = runControllerRef.current;
+    if (!controller) return;
+    if (controller.isPaused) controller.resume();
+    else controller.pause();
+    setIsPaused(controller.isPaused);
+  };
+
+  const handleCancel = () => {
+    runControllerRef.current?.cancel();
+    setIsPaused(false);
+  };
+
   const totalGroupsCalculated = Object.keys(images.reduce((acc: any, img) => {
     acc[getCleanBaseTitle(img.name)] = true;
     return acc;
   }, {})).length;
 
   const completedSteps = [isConnected, images.length > 0, !!selectedProduct, createdProducts.length > 0].filter(Boolean).length;
-  const successCount = createdProducts.filter((r: any) => r.status === "active").length;
+  const successCount = createdProducts.filter((r) => r.status === "active").length;
   const hasSuccess = successCount > 0;
 
   return (
@@ -373,31 +507,78 @@ export function BulkCreator() {
         <CardContent className="p-6">
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-xl font-semibold">Stato Avanzamento Creazione</h2>
-            <Badge variant="secondary" className="bg-primary/10 text-primary">
-              Step {currentStep} di 4
-            </Badge>
+            <div className="flex items-center gap-2">
+              <StoreSwitcher
+                connections={connections}
+                activeId={activeConnectionId}
+                onSelect={handleSelectStore}
+                onAdd={handleAddStore}
+                disabled={isCreating}
+              />
+              <BackendSettings />
+              <AccountMenu email={userEmail} disabled={isCreating} />
+              <Badge variant="secondary" className="bg-primary/10 text-primary">
+                Step {currentStep} di 4
+              </Badge>
+            </div>
           </div>
           <Progress value={(completedSteps / 4) * 100} className="mb-2" />
           <p className="text-sm text-muted-foreground">{completedSteps}/4 step completati</p>
         </CardContent>
       </Card>
 
+      <JobMonitor />
+
       {/* Step 1 */}
       <StepCard step={1} title="Connetti lo Store Gelato" description="Inserisci le credenziali API" isActive={currentStep === 1} isCompleted={isConnected}>
-        {(!isConnected || currentStep === 1) && <ApiConnection onConnect={handleConnect} isConnected={isConnected} />}
+        <ApiConnection
+          onConnect={handleConnect}
+          onRotate={handleRotate}
+          onDisconnect={handleDisconnect}
+          onCancel={addingStore && isConnected ? () => setAddingStore(false) : undefined}
+          isConnected={isConnected && !addingStore}
+          connection={credentials}
+        />
       </StepCard>
 
       {/* Step 2 */}
       <StepCard step={2} title="Carica le Immagini Originali" description="Upload Multi-Chunk garantito contro Timeout e Memory Limits (128MB)" isActive={currentStep === 2} isCompleted={images.length > 0}>
         {(currentStep === 2 || images.length > 0) && isConnected && (
-          <ImageUploader onImagesChange={handleImagesChange} processingOptions={processingOptions} onOptionsChange={setProcessingOptions} />
+          <div className="space-y-6">
+            <ImageUploader onImagesChange={handleImagesChange} processingOptions={processingOptions} onOptionsChange={setProcessingOptions} ratioRules={ratioRules} uploadProgress={uploadProgress} />
+            <UploadSessions />
+          </div>
         )}
       </StepCard>
 
       {/* Step 3 */}
       <StepCard step={3} title="Scegli Template" description="Carica il Template ID di Gelato (UUID)" isActive={currentStep === 3} isCompleted={!!selectedProduct}>
         {(currentStep === 3 || selectedProduct) && images.length > 0 && (
-          <ProductSelector onProductSelect={handleProductSelect} selectedProduct={selectedProduct} />
+          <ProductSelector
+            key={activeStoreId ?? "default"}
+            onProductSelect={handleProductSelect}
+            selectedProduct={selectedProduct}
+            connectionId={credentials?.id}
+            storeId={activeStoreId}
+            storeName={credentials?.store.name}
+          />
+        )}
+        {selectedProduct && template && images.length > 0 && (
+          <div className="mt-6 space-y-6">
+            <RatioRulesEditor
+              rules={ratioRules}
+              onRulesChange={handleRatioRulesChange}
+              variantTitles={(template.variants ?? []).map((v) => v.title)}
+            />
+            <BleedSettingsEditor
+              settings={bleedSettings}
+              onChange={handleBleedSettingsChange}
+              template={template}
+              images={images}
+              checks={qualityReport?.checks}
+              fitMode={processingOptions.fitMode}
+            />
+          </div>
         )}
       </StepCard>
 
@@ -407,6 +588,26 @@ export function BulkCreator() {
           <div className="space-y-6">
             <ProductRules rules={rules} onRulesChange={setRules} onSave={handleSaveRules} />
 
+            {qualityReport && (
+              <PrintQualityReport
+                report={qualityReport}
+                thresholds={qualityThresholds}
+                onThresholdsChange={handleQualityThresholdsChange}
+                disabled={isCreating}
+              />
+            )}
+
+            {qualityReport && processingOptions.upscale && !isCreating && (
+              <UpscalePreview images={images} checks={qualityReport.checks} upscaler={processingOptions.upscaler} />
+            )}
+
+            <PublishSettings
+              value={publishOptions}
+              onChange={handlePublishOptionsChange}
+              availableChannels={credentials?.store.salesChannels}
+              disabled={isCreating}
+            />
+
             <Card className="border-success/20 bg-success/5">
               <CardContent className="p-6 text-center space-y-4">
                 <div className="flex items-center justify-center space-x-2 mb-4">
@@ -432,11 +633,30 @@ export function BulkCreator() {
                 {isCreating ? (
                   <div className="space-y-4">
                     <div className="flex items-center justify-center space-x-2">
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                      <span>Upload in corso (Chunk sicuri 6MB)...</span>
+                      {isPaused ? <Pause className="h-4 w-4" /> : <Loader2 className="h-4 w-4 animate-spin" />}
+                      <span>
+                        {jobStatus
+                          ? `Creazione su Gelato: ${jobStatus.completed}/${jobStatus.total} prodotti`
+                          : isPaused
+                            ? "In pausa (le fette in volo terminano)"
+                            : "Upload in corso (Chunk sicuri 6MB)..."}
+                      </span>
                     </div>
                     <Progress value={creationProgress} />
                     <p className="text-sm text-muted-foreground">{Math.round(creationProgress)}% completato</p>
+                    {uploadStats && !jobStatus && <UploadThroughput {...uploadStats} />}
+                    <div className="flex items-center justify-center gap-3">
+                      {!jobStatus && (
+                        <Button variant="outline" size="sm" onClick={handlePauseToggle}>
+                          {isPaused ? <Play className="h-4 w-4 mr-2" /> : <Pause className="h-4 w-4 mr-2" />}
+                          {isPaused ? "Riprendi" : "Pausa"}
+                        </Button>
+                      )}
+                      <Button variant="destructive" size="sm" onClick={handleCancel}>
+                        <XCircle className="h-4 w-4 mr-2" />
+                        Annulla
+                      </Button>
+                    </div>
                   </div>
                 ) : hasSuccess ? (
                   <div className="space-y-4">
@@ -447,13 +667,25 @@ export function BulkCreator() {
                     <div className="text-sm text-muted-foreground">Trovati {successCount} prodotti nel tuo Store Gelato.</div>
                   </div>
                 ) : (
-                  <Button onClick={handleCreateProducts} disabled={!images.length || !selectedProduct} size="lg" className="bg-gradient-to-r from-success to-success/80 hover:opacity-90 text-white">
-                    <Rocket className="h-4 w-4 mr-2" />
-                    Carica e Crea {totalGroupsCalculated} Prodotti
-                  </Button>
+                  <div className="flex flex-wrap items-center justify-center gap-3">
+                    <Button variant="outline" size="lg" onClick={() => setShowPlan((v) => !v)} disabled={!plan}>
+                      <ClipboardList className="h-4 w-4 mr-2" />
+                      {showPlan ? "Nascondi Piano" : "Anteprima Piano"}
+                    </Button>
+                    <Button onClick={handleCreateProducts} disabled={!images.length || !selectedProduct || !!validatePublishOptions(publishOptions) || !!validateBleedSettings(bleedSettings) || !!qualityReport?.blocked} size="lg" className="bg-gradient-to-r from-success to-success/80 hover:opacity-90 text-white">
+                      <Rocket className="h-4 w-4 mr-2" />
+                      Carica e Crea {totalGroupsCalculated} Prodotti
+                    </Button>
+                  </div>
                 )}
               </CardContent>
             </Card>
+
+            {jobStatus && <JobResultsTable items={jobStatus.items} />}
+
+            {cancelledRun && !isCreating && <RunReport groups={cancelledRun} />}
+
+            {showPlan && plan && !isCreating && <PlanPreview plan={plan} />}
           </div>
         )}
       </StepCard>
@@ -1,11 +1,19 @@
-import React, { useState, useCallback } from "react";
-import { Upload, X, Image as ImageIcon, Zap } from "lucide-react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Upload, X, Image as ImageIcon, Zap, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+import type { UploadProgress } from "@/lib/upload-engine";
+import { readImageMetadata } from "@/lib/image-metadata";
+import { DEFAULT_RATIO_RULES, resolveImageRatio, type RatioRule } from "@/lib/ratio-rules";
+import type { FitMode, ImageProcessingOptions } from "@/lib/image-fit";
+import { colorIssues, isSrgbProfile } from "@/lib/color-profile";
+import { findRatioTagClashes } from "@/lib/bulk-pipeline";
 
 interface ImageFile {
   id: string;
@@ -13,20 +21,106 @@ interface ImageFile {
   preview: string;
   name: string;
   size: string;
+  width?: number;
+  height?: number;
+  dpi?: number;
+  colorSpace?: string;
+  iccProfile?: string;
+  bitDepth?: number;
 }
 
 interface ImageUploaderProps {
   onImagesChange: (images: ImageFile[]) => void;
-  processingOptions: {
-    upscale: boolean;
-    fitMode: "stretch" | "preserve" | "exact";
-  };
-  onOptionsChange: (options: { upscale: boolean; fitMode: "stretch" | "preserve" | "exact" }) => void;
+  processingOptions: ImageProcessingOptions;
+  onOptionsChange: (options: ImageProcessingOptions) => void;
+  ratioRules?: RatioRule[];
+  /** avanzamento upload per id immagine durante la creazione: un progresso per file caricato (originale o derivati) */
+  uploadProgress?: Record<string, UploadProgress[]>;
+}
+
+function ImageRatioLine({ image, ratioRules }: { image: ImageFile; ratioRules: RatioRule[] }) {
+  if (!image.width || !image.height) return null;
+  const ratio = resolveImageRatio(image, ratioRules);
+
+  return (
+    <div className="mt-1 space-y-1">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          {image.width}×{image.height}px{image.dpi ? ` · ${image.dpi} DPI` : ""}
+        </span>
+        <Badge variant="outline" className="text-[10px] px-1.5 py-0">
+          {ratio.tag}
+        </Badge>
+      </div>
+      {ratio.conflict && (
+        <p className="flex items-center gap-1 text-[10px] text-warning">
+          <AlertTriangle className="h-3 w-3 shrink-0" />
+          Name says {ratio.hint}, pixels look {ratio.measured === "default" ? "unmatched" : ratio.measured}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Profilo colore: conversione in sRGB prevista e problemi (CMYK, profondità non supportate)
+function ImageColorLine({ image }: { image: ImageFile }) {
+  const issues = colorIssues(image);
+  const converted = image.colorSpace === "RGB" && !isSrgbProfile(image);
+  if (!issues.length && !converted) return null;
+
+  return (
+    <div className="mt-1 space-y-1">
+      {converted && (
+        <p className="text-[10px] text-muted-foreground truncate" title={image.iccProfile}>
+          {image.iccProfile} → sRGB
+        </p>
+      )}
+      {issues.map((issue) => (
+        <p
+          key={issue.message}
+          className={cn("flex items-center gap-1 text-[10px]", issue.level === "error" ? "text-destructive" : "text-warning")}
+        >
+          <AlertTriangle className="h-3 w-3 shrink-0" />
+          {issue.message}
+        </p>
+      ))}
+    </div>
+  );
 }
 
-export function ImageUploader({ onImagesChange, processingOptions, onOptionsChange }: ImageUploaderProps) {
+function ImageUploadProgress({ progress }: { progress: UploadProgress[] }) {
+  const loaded = progress.reduce((n, p) => n + p.loaded, 0);
+  const total = progress.reduce((n, p) => n + p.total, 0);
+  const percent = total ? (loaded / total) * 100 : 100;
+
+  return (
+    <div className="mt-2 space-y-1">
+      <Progress value={percent} className="h-1.5" />
+      {progress.map((file, index) => (
+        <div key={index} className="flex gap-px h-1">
+          {file.parts.map((part) => (
+            <div
+              key={part.partNumber}
+              className={cn(
+                "flex-1 rounded-sm",
+                part.status === "done" ? "bg-success" : part.status === "uploading" ? "bg-primary/60" : "bg-muted"
+              )}
+              title={`Chunk ${part.partNumber}: ${Math.round((part.loaded / (part.total || 1)) * 100)}%`}
+            />
+          ))}
+        </div>
+      ))}
+      <p className="text-[10px] text-muted-foreground">
+        {Math.round(percent)}% uploaded{progress.length > 1 && ` · ${progress.length} files`}
+      </p>
+    </div>
+  );
+}
+
+export function ImageUploader({ onImagesChange, processingOptions, onOptionsChange, ratioRules = DEFAULT_RATIO_RULES, uploadProgress }: ImageUploaderProps) {
   const [images, setImages] = useState<ImageFile[]>([]);
   const [isDragging, setIsDragging] = useState(false);
+  const notifyRef = useRef(false);
 
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
@@ -36,28 +130,33 @@ export function ImageUploader({ onImagesChange, processingOptions, onOptionsChan
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
-  const processFiles = useCallback((files: FileList) => {
-    const newImages: ImageFile[] = [];
-    
-    Array.from(files).forEach((file) => {
-      if (file.type.startsWith('image/')) {
-        const id = Math.random().toString(36).substr(2, 9);
-        const preview = URL.createObjectURL(file);
-        
-        newImages.push({
-          id,
+  const processFiles = useCallback(async (files: FileList) => {
+    const imageFiles = Array.from(files).filter((file) => file.type.startsWith('image/'));
+
+    // Legge dimensioni e DPI dall'header: servono a dedurre la ratio se il nome file non la indica
+    const newImages: ImageFile[] = await Promise.all(
+      imageFiles.map(async (file) => {
+        const meta = await readImageMetadata(file).catch(() => undefined);
+        return {
+          id: Math.random().toString(36).substr(2, 9),
           file,
-          preview,
+          preview: URL.createObjectURL(file),
           name: file.name,
-          size: formatFileSize(file.size)
-        });
-      }
-    });
-
-    const updatedImages = [...images, ...newImages];
-    setImages(updatedImages);
-    onImagesChange(updatedImages);
-  }, [images, onImagesChange]);
+          size: formatFileSize(file.size),
+          width: meta?.width,
+          height: meta?.height,
+          dpi: meta?.dpi,
+          colorSpace: meta?.colorSpace,
+          iccProfile: meta?.iccProfile,
+          bitDepth: meta?.bitDepth,
+        };
+      })
+    );
+
+    // aggiornamento funzionale: due drop ravvicinati non si sovrascrivono
+    notifyRef.current = true;
+    setImages((prev) => [...prev, ...newImages]);
+  }, []);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -72,11 +171,24 @@ export function ImageUploader({ onImagesChange, processingOptions, onOptionsChan
   }, [processFiles]);
 
   const removeImage = (id: string) => {
-    const updatedImages = images.filter(img => img.id !== id);
-    setImages(updatedImages);
-    onImagesChange(updatedImages);
+    notifyRef.current = true;
+    setImages((prev) => prev.filter((img) => img.id !== id));
   };
 
+  // il genitore riceve la lista solo dopo una modifica dell'utente, già applicata
+  useEffect(() => {
+    if (!notifyRef.current) return;
+    notifyRef.current = false;
+    onImagesChange(images);
+  }, [images, onImagesChange]);
+
+  // file dello stesso gruppo con la stessa ratio: verrebbe usato solo l'ultimo
+  const clashes = useMemo(() => findRatioTagClashes(images, ratioRules), [images, ratioRules]);
+  const clashByName = useMemo(
+    () => new Map(clashes.flatMap((clash) => clash.names.map((name) => [name, clash] as const))),
+    [clashes]
+  );
+
   return (
     <div className="space-y-6">
       {/* Upload Area */}
@@ -140,7 +252,7 @@ export function ImageUploader({ onImagesChange, processingOptions, onOptionsChan
             <Label className="text-sm font-medium">Image Fitting Options</Label>
             <RadioGroup 
               value={processingOptions.fitMode} 
-              onValueChange={(value: "stretch" | "preserve" | "exact") => 
+              onValueChange={(value: FitMode) => 
                 onOptionsChange({ ...processingOptions, fitMode: value })
               }
             >
@@ -169,6 +281,19 @@ export function ImageUploader({ onImagesChange, processingOptions, onOptionsChan
               <h3 className="text-lg font-semibold">Uploaded Images</h3>
               <Badge variant="secondary">{images.length} files</Badge>
             </div>
+            {clashes.length > 0 && (
+              <div className="mb-4 space-y-1 rounded-md border border-warning/40 bg-warning/10 p-3">
+                {clashes.map((clash) => (
+                  <p key={`${clash.baseTitle}:${clash.ratioTag}`} className="flex items-start gap-2 text-sm">
+                    <AlertTriangle className="h-4 w-4 shrink-0 text-warning mt-0.5" />
+                    <span>
+                      {clash.names.join(", ")} all map to “{clash.baseTitle}” ({clash.ratioTag}). Only{" "}
+                      {clash.names[clash.names.length - 1]} will be used: rename or remove the others.
+                    </span>
+                  </p>
+                ))}
+              </div>
+            )}
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
               {images.map((image) => (
                 <div key={image.id} className="group relative">
@@ -194,6 +319,15 @@ export function ImageUploader({ onImagesChange, processingOptions, onOptionsChan
                           {image.name}
                         </p>
                         <p className="text-xs text-muted-foreground">{image.size}</p>
+                        <ImageRatioLine image={image} ratioRules={ratioRules} />
+                        {clashByName.has(image.name) && (
+                          <p className="mt-1 flex items-center gap-1 text-[10px] text-warning">
+                            <AlertTriangle className="h-3 w-3 shrink-0" />
+                            Same product and ratio as another file
+                          </p>
+                        )}
+                        <ImageColorLine image={image} />
+                        {uploadProgress?.[image.id] && <ImageUploadProgress progress={uploadProgress[image.id]} />}
                       </div>
                     </CardContent>
                   </Card>
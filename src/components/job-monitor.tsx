@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { AlertTriangle, CheckCircle, Loader2, RadioTower, RefreshCw, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { JobResultsTable } from "@/components/job-results-table";
+import {
+  BulkJobNotFoundError,
+  BulkJobStaleError,
+  clearActiveJob,
+  isJobFinished,
+  JOB_STALE_AFTER_MS,
+  loadActiveJob,
+  waitForJob,
+  type ActiveJob,
+  type BulkJobStatus,
+} from "@/lib/bulk-jobs";
+
+// Job di creazione avviato prima di un reload: riprende il polling dello stato
+export function JobMonitor() {
+  const { toast } = useToast();
+  const [active, setActive] = useState<ActiveJob | null>(null);
+  const [job, setJob] = useState<BulkJobStatus | null>(null);
+  // job fermo: il polling si è interrotto, "Ricontrolla" lo fa ripartire
+  const [stale, setStale] = useState(false);
+  const [checks, setChecks] = useState(0);
+
+  useEffect(() => {
+    const saved = loadActiveJob();
+    if (!saved) return;
+    setActive(saved);
+    setStale(false);
+
+    const controller = new AbortController();
+    waitForJob(saved.jobId, { baseUrl: saved.baseUrl, signal: controller.signal, onUpdate: setJob })
+      .then((finished) => {
+        clearActiveJob(finished.id);
+        toast({
+          title: finished.status === "failed" ? "Job fallito" : finished.status === "cancelled" ? "Job annullato" : "Job completato",
+          description: finished.error ?? `${finished.successCount}/${finished.total} prodotti creati`,
+          variant: finished.status === "failed" ? "destructive" : undefined,
+        });
+      })
+      .catch((e) => {
+        if (controller.signal.aborted) return;
+        if (e instanceof BulkJobNotFoundError) {
+          clearActiveJob(saved.jobId);
+          setActive(null);
+        }
+        if (e instanceof BulkJobStaleError) setStale(true);
+      });
+    return () => controller.abort();
+  }, [toast, checks]);
+
+  if (!active) return null;
+
+  const dismiss = () => {
+    clearActiveJob(active.jobId);
+    setActive(null);
+  };
+
+  const finished = !!job && isJobFinished(job);
+  const total = job?.total ?? active.total;
+  const completed = job?.completed ?? 0;
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            {finished ? (
+              <CheckCircle className="h-5 w-5 text-success" />
+            ) : stale ? (
+              <AlertTriangle className="h-5 w-5 text-warning" />
+            ) : (
+              <RadioTower className="h-5 w-5" />
+            )}
+            {finished ? "Job di Creazione Concluso" : stale ? "Job di Creazione Fermo" : "Job di Creazione in Corso"}
+          </h3>
+          <div className="flex items-center gap-1">
+            {stale && !finished && (
+              <Button variant="outline" size="sm" onClick={() => setChecks((n) => n + 1)}>
+                <RefreshCw className="h-4 w-4 mr-1" />
+                Ricontrolla
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={dismiss} title={finished ? "Chiudi" : "Smetti di seguire (il job continua su Gelato)"}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Progress value={total ? (completed / total) * 100 : 0} />
+          <p className="text-sm text-muted-foreground flex items-center gap-2">
+            {!finished && !stale && <Loader2 className="h-3 w-3 animate-spin" />}
+            {completed}/{total} prodotti elaborati · avviato {new Date(active.startedAt).toLocaleString()}
+          </p>
+          {stale && !finished && (
+            <p className="text-sm text-warning">
+              Nessun aggiornamento da oltre {Math.round(JOB_STALE_AFTER_MS / 60000)} minuti: il job potrebbe essersi interrotto. Gli
+              aggiornamenti non vengono più richiesti; controlla i prodotti su Gelato prima di rilanciare la creazione.
+            </p>
+          )}
+        </div>
+        {job && <JobResultsTable items={job.items} />}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,72 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ExternalLink, Loader2 } from "lucide-react";
+import { isItemFinished, type BulkJobItem } from "@/lib/bulk-jobs";
+
+interface JobResultsTableProps {
+  items: BulkJobItem[];
+}
+
+const itemStatusLabels: Record<string, { label: string; className: string }> = {
+  pending: { label: "In coda", className: "" },
+  creating: { label: "Creazione", className: "border-primary text-primary" },
+  polling: { label: "In attesa di Gelato", className: "border-primary text-primary" },
+  active: { label: "Attivo", className: "border-success text-success" },
+  publishing_error: { label: "Errore pubblicazione", className: "border-destructive text-destructive" },
+  timeout: { label: "Timeout — verifica su Gelato", className: "border-warning text-warning" },
+  error: { label: "Errore", className: "border-destructive text-destructive" },
+  cancelled: { label: "Annullato", className: "text-muted-foreground" },
+};
+
+// Una riga per prodotto del job, aggiornata live dallo stream o dal polling
+export function JobResultsTable({ items }: JobResultsTableProps) {
+  return (
+    <div className="max-h-96 overflow-y-auto rounded border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-10">#</TableHead>
+            <TableHead>Prodotto</TableHead>
+            <TableHead>Stato</TableHead>
+            <TableHead className="text-right">Tentativi</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {items.map((item) => {
+            const status = itemStatusLabels[item.status] ?? { label: item.status, className: "" };
+            return (
+              <TableRow key={item.position}>
+                <TableCell className="text-xs text-muted-foreground">{item.position + 1}</TableCell>
+                <TableCell className="text-xs max-w-xs">
+                  <p className="font-medium truncate" title={item.title}>{item.title}</p>
+                  {item.error && <p className="text-destructive truncate" title={item.error}>{item.error}</p>}
+                  {item.previewUrl && (
+                    <a href={item.previewUrl} target="_blank" rel="noreferrer" className="inline-flex items-center gap-1 text-primary hover:underline">
+                      Anteprima <ExternalLink className="h-3 w-3" />
+                    </a>
+                  )}
+                </TableCell>
+                <TableCell className="text-xs">
+                  <Badge variant="outline" className={status.className}>
+                    {!isItemFinished(item) && item.status !== "pending" && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                    {status.label}
+                  </Badge>
+                  {item.reused && (
+                    <Badge variant="secondary" className="ml-2" title="Stessa chiave di idempotenza: prodotto non ricreato">
+                      Già esistente
+                    </Badge>
+                  )}
+                  {item.status === "polling" && item.gelatoStatus && (
+                    <span className="ml-2 text-muted-foreground">{item.gelatoStatus}</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-xs text-right">{item.attempts || "—"}</TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
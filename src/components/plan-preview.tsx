@@ -0,0 +1,104 @@
+import React from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, ClipboardList, Download } from "lucide-react";
+import type { BulkPlan, VariantFallback } from "@/lib/bulk-pipeline";
+
+interface PlanPreviewProps {
+  plan: BulkPlan;
+}
+
+const fallbackLabels: Record<Exclude<VariantFallback, "none">, string> = {
+  default: "default image",
+  "first-available": "first available",
+  missing: "no image",
+};
+
+export function PlanPreview({ plan }: PlanPreviewProps) {
+  const exportJson = () => {
+    const blob = new Blob([JSON.stringify(plan, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `gelato-plan-${plan.templateId}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <ClipboardList className="h-5 w-5" />
+              <span>Creation Plan (Dry Run)</span>
+            </CardTitle>
+            <CardDescription>
+              Nothing is uploaded or created. {plan.products.length} products from {plan.templateTitle || plan.templateId}
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={exportJson}>
+            <Download className="h-4 w-4 mr-2" />
+            Export JSON
+          </Button>
+        </div>
+        {plan.fallbackCount > 0 && (
+          <div className="flex items-center space-x-2 text-sm text-warning">
+            <AlertTriangle className="h-4 w-4" />
+            <span>{plan.fallbackCount} variants would fall back to a non-matching image</span>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {plan.products.map((product) => (
+          <div key={product.baseTitle} className="space-y-2">
+            <div>
+              <h4 className="font-semibold">{product.title}</h4>
+              <p className="text-xs text-muted-foreground truncate" title={product.description}>
+                {product.description}
+              </p>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {product.tags.map((tag) => (
+                  <Badge key={tag} variant="secondary" className="text-xs">
+                    {tag}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Variant</TableHead>
+                  <TableHead>Ratio</TableHead>
+                  <TableHead>File</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {product.variants.map((v) => (
+                  <TableRow key={v.templateVariantId}>
+                    <TableCell className="text-xs">{v.variantTitle}</TableCell>
+                    <TableCell className="text-xs">{v.variantRatio}</TableCell>
+                    <TableCell className="text-xs">
+                      <span className="mr-2">{v.sourceName ?? "—"}</span>
+                      {v.fallback !== "none" && (
+                        <Badge variant="outline" className="text-xs border-warning text-warning">
+                          {fallbackLabels[v.fallback]}
+                        </Badge>
+                      )}
+                      {v.uploadFileName && v.uploadFileName !== v.sourceName && (
+                        <span className="block text-muted-foreground">uploaded as {v.uploadFileName}</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,149 @@
+import React, { useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Gauge } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  validatePrintQualityThresholds,
+  type PrintQualityReport as PrintQualityReportType,
+  type PrintQualityStatus,
+  type PrintQualityThresholds,
+} from "@/lib/print-quality";
+
+interface PrintQualityReportProps {
+  report: PrintQualityReportType;
+  thresholds: PrintQualityThresholds;
+  onThresholdsChange: (value: PrintQualityThresholds) => void;
+  disabled?: boolean;
+}
+
+const statusStyles: Record<PrintQualityStatus, { label: string; className: string }> = {
+  fail: { label: "Insufficiente", className: "border-destructive text-destructive" },
+  warn: { label: "Al limite", className: "border-warning text-warning" },
+  pass: { label: "OK", className: "border-success text-success" },
+  unknown: { label: "Non verificabile", className: "text-muted-foreground" },
+};
+
+const statusOrder: PrintQualityStatus[] = ["fail", "warn", "unknown", "pass"];
+
+// DPI effettivi per immagine/variante; mostra prima i problemi
+export function PrintQualityReport({ report, thresholds, onThresholdsChange, disabled }: PrintQualityReportProps) {
+  const [showAll, setShowAll] = useState(false);
+  const error = validatePrintQualityThresholds(thresholds);
+
+  const sorted = [...report.checks].sort(
+    (a, b) => statusOrder.indexOf(a.status) - statusOrder.indexOf(b.status) || (a.dpi ?? 0) - (b.dpi ?? 0)
+  );
+  const visible = showAll ? sorted : sorted.filter((c) => c.status !== "pass");
+
+  const setDpi = (key: "warnBelowDpi" | "failBelowDpi", raw: string) => {
+    const n = Number(raw);
+    if (Number.isFinite(n)) onThresholdsChange({ ...thresholds, [key]: Math.round(n) });
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <Gauge className="h-5 w-5" />
+            Qualità di stampa
+          </h3>
+          <div className="flex flex-wrap gap-2">
+            {statusOrder
+              .filter((s) => report.counts[s] > 0)
+              .map((s) => (
+                <Badge key={s} variant="outline" className={cn("text-xs", statusStyles[s].className)}>
+                  {report.counts[s]} {statusStyles[s].label}
+                </Badge>
+              ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="dpi-warn" className="text-xs">Avviso sotto (DPI)</Label>
+            <Input
+              id="dpi-warn"
+              type="number"
+              min={1}
+              className="w-28"
+              value={thresholds.warnBelowDpi}
+              onChange={(e) => setDpi("warnBelowDpi", e.target.value)}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="dpi-fail" className="text-xs">Insufficiente sotto (DPI)</Label>
+            <Input
+              id="dpi-fail"
+              type="number"
+              min={1}
+              className="w-28"
+              value={thresholds.failBelowDpi}
+              onChange={(e) => setDpi("failBelowDpi", e.target.value)}
+              disabled={disabled}
+            />
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Switch
+              id="dpi-block"
+              checked={thresholds.blockOnFail}
+              onCheckedChange={(checked) => onThresholdsChange({ ...thresholds, blockOnFail: checked })}
+              disabled={disabled}
+            />
+            <Label htmlFor="dpi-block">Blocca la creazione se insufficiente</Label>
+          </div>
+        </div>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        {report.checks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nessuna variante da verificare.</p>
+        ) : (
+          <>
+            {visible.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>File</TableHead>
+                    <TableHead>Variante</TableHead>
+                    <TableHead>Area (mm)</TableHead>
+                    <TableHead>DPI</TableHead>
+                    <TableHead>Esito</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visible.map((c) => (
+                    <TableRow key={`${c.imageId}:${c.templateVariantId}`}>
+                      <TableCell className="text-xs">{c.sourceName}</TableCell>
+                      <TableCell className="text-xs">{c.variantTitle}</TableCell>
+                      <TableCell className="text-xs">{c.areaMm ? `${c.areaMm.width}×${c.areaMm.height}` : "—"}</TableCell>
+                      <TableCell className="text-xs font-medium">{c.dpi ?? "—"}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={cn("text-xs", statusStyles[c.status].className)}>
+                          {statusStyles[c.status].label}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-success">Tutte le varianti superano le soglie.</p>
+            )}
+            {report.counts.pass > 0 && (
+              <Button variant="ghost" size="sm" onClick={() => setShowAll((v) => !v)}>
+                {showAll ? "Mostra solo i problemi" : `Mostra tutte (${sorted.length})`}
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
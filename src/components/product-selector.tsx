@@ -7,7 +7,16 @@ import { Badge } from "@/components/ui/badge";
 import { ExternalLink, Package, Plus, Loader2, Save } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { getTemplate } from "@/lib/supabaseFetch";
+import {
+  countLegacyTemplates,
+  discardLegacyTemplates,
+  importLegacyTemplates,
+  listSavedTemplates,
+  saveTemplate,
+  type SavedTemplate,
+} from "@/lib/saved-templates";
 import { useToast } from "@/components/ui/use-toast";
+import type { GelatoTemplate } from "@/lib/bulk-pipeline";
 
 type Product = {
   id: string;
@@ -18,41 +27,61 @@ type Product = {
 };
 
 type ProductSelectorProps = {
-  onProductSelect: (product: Product) => void;
+  onProductSelect: (product: Product, template?: GelatoTemplate) => void;
   selectedProduct?: Product;
+  /** connessione dello store: il template viene letto con la sua chiave */
+  connectionId?: string;
+  /** store attivo: ogni store ha i suoi template salvati */
+  storeId?: string;
+  storeName?: string;
 };
 
-type SavedTemplate = {
-  id: string;              // uuid locale
-  templateId: string;      // uuid gelato
-  name: string;            // come lo vedi nel dropdown
-  productType?: string;
-  variants?: string[];
-  createdAt: number;
-};
-
-const LS_KEY = "gelato.savedTemplates";
-
-export function ProductSelector({ onProductSelect, selectedProduct }: ProductSelectorProps) {
+export function ProductSelector({ onProductSelect, selectedProduct, connectionId, storeId, storeName }: ProductSelectorProps) {
   const [productId, setProductId] = useState("");
   const [productName, setProductName] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [showManual, setShowManual] = useState(true);   // mostra/nasconde il form manuale
   const [saved, setSaved] = useState<SavedTemplate[]>([]);
+  // template globali di prima del multi-store: vanno in uno store solo se l'utente lo sceglie
+  const [legacyCount, setLegacyCount] = useState(countLegacyTemplates);
+  const [isImporting, setIsImporting] = useState(false);
   const { toast } = useToast();
 
-  // bootstrap: carica i template salvati localmente
-  useEffect(() => {
-    try {
-      const raw = localStorage.getItem(LS_KEY);
-      if (raw) setSaved(JSON.parse(raw));
-    } catch {}
-  }, []);
+  const reloadSaved = async (id: string) => setSaved(await listSavedTemplates(id));
+
+  // bootstrap: template salvati dello store attivo (utente + team)
   useEffect(() => {
+    if (!storeId) return;
+    let cancelled = false;
+    listSavedTemplates(storeId)
+      .then((list) => {
+        if (!cancelled) setSaved(list);
+      })
+      .catch((e) => console.warn("[selector] Cannot load saved templates:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [storeId]);
+
+  const onImportLegacy = async () => {
+    if (!storeId) return;
+    setIsImporting(true);
     try {
-      localStorage.setItem(LS_KEY, JSON.stringify(saved));
-    } catch {}
-  }, [saved]);
+      await importLegacyTemplates(storeId);
+      setLegacyCount(0);
+      await reloadSaved(storeId);
+      toast({ title: "Templates imported", description: `Saved templates moved to ${storeName ?? "the active store"}` });
+    } catch (e) {
+      toast({ title: "Import failed", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const onDiscardLegacy = () => {
+    discardLegacyTemplates();
+    setLegacyCount(0);
+  };
 
   const isGuidSelected =
     !!selectedProduct &&
@@ -61,20 +90,24 @@ export function ProductSelector({ onProductSelect, selectedProduct }: ProductSel
     );
 
   const loadTemplateById = async (tplId: string, forcedName?: string) => {
+    if (!connectionId) {
+      toast({ title: "No store connected", description: "Connect a Gelato store before loading a template", variant: "destructive" });
+      return;
+    }
     setIsLoading(true);
     try {
-      const template = await getTemplate(tplId);
+      const template: GelatoTemplate = await getTemplate(tplId, connectionId);
       const product: Product = {
         id: template.id,
         name: forcedName || template.title || `Template ${tplId}`,
         type: template.productType || "apparel",
-        variants: (template.variants || []).map((v: any) => v.title),
+        variants: (template.variants || []).map((v) => v.title),
         printAreas:
-          template.variants?.[0]?.imagePlaceholders?.map((p: any) => p.name) ||
-          template.imagePlaceholders?.map((p: any) => p.name) ||
+          template.variants?.[0]?.imagePlaceholders?.map((p) => p.name) ||
+          template.imagePlaceholders?.map((p) => p.name) ||
           ["front"],
       };
-      onProductSelect(product);
+      onProductSelect(product, template);
       toast({ title: "Template loaded", description: `Loaded: ${product.name}` });
     } catch (e: any) {
       console.error("[selector] Error loading template:", e);
@@ -109,25 +142,25 @@ export function ProductSelector({ onProductSelect, selectedProduct }: ProductSel
   };
 
   // salvataggio template corrente nel dropdown
-  const onSaveTemplate = () => {
+  const onSaveTemplate = async () => {
     if (!productId || !/^[0-9a-f-]{36}$/i.test(productId)) {
       toast({ title: "Invalid template ID", description: "Serve un UUID Gelato valido.", variant: "destructive" });
       return;
     }
+    if (!storeId) return;
     const name = productName?.trim() || "Saved Template";
-    const entry: SavedTemplate = {
-      id: crypto.randomUUID(),
-      templateId: productId,
-      name,
-      createdAt: Date.now(),
-    };
-    setSaved((prev) => {
-      // niente duplicati sullo stesso templateId
-      const without = prev.filter((x) => x.templateId !== entry.templateId);
-      return [entry, ...without].slice(0, 50);
-    });
-    toast({ title: "Template saved", description: `Saved as “${name}”.` });
-    setShowManual(false);
+    try {
+      const entry = await saveTemplate(storeId, { templateId: productId, name });
+      setSaved((prev) => {
+        // niente duplicati sullo stesso templateId
+        const without = prev.filter((x) => x.templateId !== entry.templateId);
+        return [entry, ...without].slice(0, 50);
+      });
+      toast({ title: "Template saved", description: `Saved as “${name}”.` });
+      setShowManual(false);
+    } catch (e) {
+      toast({ title: "Template not saved", description: e instanceof Error ? e.message : String(e), variant: "destructive" });
+    }
   };
 
   return (
@@ -142,6 +175,24 @@ export function ProductSelector({ onProductSelect, selectedProduct }: ProductSel
         </CardHeader>
 
         <CardContent className="space-y-5">
+          {legacyCount > 0 && storeId && (
+            <div className="rounded-md border border-warning/40 bg-warning/10 p-3 space-y-2">
+              <p className="text-sm">
+                {legacyCount} template{legacyCount > 1 ? "s were" : " was"} saved in this browser before templates were kept per
+                store. Import {legacyCount > 1 ? "them" : "it"} into {storeName ?? "the active store"}?
+              </p>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={onImportLegacy} disabled={isImporting}>
+                  {isImporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Import into this store
+                </Button>
+                <Button size="sm" variant="ghost" onClick={onDiscardLegacy} disabled={isImporting}>
+                  Discard
+                </Button>
+              </div>
+            </div>
+          )}
+
           {/* Saved Templates dropdown */}
           <div className="space-y-2">
             <Label>Use a saved template</Label>
@@ -153,6 +204,7 @@ export function ProductSelector({ onProductSelect, selectedProduct }: ProductSel
                 {saved.map((s) => (
                   <SelectItem key={s.id} value={s.templateId}>
                     {s.name}
+                    {s.shared && <span className="ml-2 text-xs text-muted-foreground">(saved by a teammate)</span>}
                   </SelectItem>
                 ))}
                 <SelectItem value="__other__">Select another product…</SelectItem>
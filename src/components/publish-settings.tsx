@@ -0,0 +1,84 @@
+import React from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Megaphone } from "lucide-react";
+import { SALES_CHANNEL_OPTIONS, validatePublishOptions, type PublishOptions } from "@/lib/publish-options";
+
+interface PublishSettingsProps {
+  value: PublishOptions;
+  onChange: (value: PublishOptions) => void;
+  /** canali dello store collegato; gli altri restano visibili ma non selezionabili */
+  availableChannels?: string[];
+  disabled?: boolean;
+}
+
+// Bozza vs pubblicato e canali di vendita, inviati a gelato-bulk-create
+export function PublishSettings({ value, onChange, availableChannels, disabled }: PublishSettingsProps) {
+  const error = validatePublishOptions(value);
+
+  const toggleChannel = (id: string, checked: boolean) => {
+    const salesChannels = checked ? [...value.salesChannels, id] : value.salesChannels.filter((c) => c !== id);
+    onChange({ ...value, salesChannels });
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <Megaphone className="h-5 w-5" />
+          Pubblicazione
+        </h3>
+
+        <RadioGroup
+          value={value.publish ? "publish" : "draft"}
+          onValueChange={(v) => onChange({ ...value, publish: v === "publish" })}
+          className="flex flex-wrap gap-6"
+          disabled={disabled}
+        >
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="draft" id="publish-draft" />
+            <Label htmlFor="publish-draft">Bozza (non visibile)</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="publish" id="publish-live" />
+            <Label htmlFor="publish-live">Pubblicato</Label>
+          </div>
+        </RadioGroup>
+
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">Canali di vendita</p>
+          <div className="flex flex-wrap gap-4">
+            {SALES_CHANNEL_OPTIONS.map((channel) => {
+              const offered = !availableChannels || availableChannels.includes(channel.id);
+              return (
+                <div key={channel.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`channel-${channel.id}`}
+                    checked={value.salesChannels.includes(channel.id)}
+                    onCheckedChange={(checked) => toggleChannel(channel.id, checked === true)}
+                    disabled={disabled || !value.publish || (!offered && !value.salesChannels.includes(channel.id))}
+                  />
+                  <Label
+                    htmlFor={`channel-${channel.id}`}
+                    className={!value.publish || !offered ? "text-muted-foreground" : undefined}
+                    title={offered ? undefined : "Canale non collegato allo store"}
+                  >
+                    {channel.label}
+                  </Label>
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {value.publish
+              ? "Il backend verifica che i canali siano disponibili sullo store collegato."
+              : "Le bozze non vengono inviate a nessun canale."}
+          </p>
+          {error && <p className="text-xs text-destructive">{error}</p>}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus, Ratio, RotateCcw, Trash2 } from "lucide-react";
+import { DEFAULT_RATIO_RULES, matchVariantRatio, type RatioRule } from "@/lib/ratio-rules";
+
+interface RatioRulesEditorProps {
+  rules: RatioRule[];
+  onRulesChange: (rules: RatioRule[]) => void;
+  variantTitles: string[];
+}
+
+// Lista separata da virgole, confermata al blur per non perdere le virgole mentre si digita
+function PatternInput({ value, onCommit, placeholder }: { value: string[]; onCommit: (v: string[]) => void; placeholder?: string }) {
+  const [draft, setDraft] = useState(value.join(", "));
+  useEffect(() => setDraft(value.join(", ")), [value]);
+
+  return (
+    <Input
+      value={draft}
+      placeholder={placeholder}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => onCommit(draft.split(",").map((p) => p.trim()).filter(Boolean))}
+    />
+  );
+}
+
+export function RatioRulesEditor({ rules, onRulesChange, variantTitles }: RatioRulesEditorProps) {
+  const updateRule = (index: number, updates: Partial<RatioRule>) => {
+    onRulesChange(rules.map((r, i) => (i === index ? { ...r, ...updates } : r)));
+  };
+
+  const addRule = () => {
+    onRulesChange([...rules, { key: "", filenamePatterns: [], variantPatterns: [], tolerance: 0 }]);
+  };
+
+  const removeRule = (index: number) => {
+    onRulesChange(rules.filter((_, i) => i !== index));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <Ratio className="h-5 w-5" />
+              <span>Ratio Mapping</span>
+            </CardTitle>
+            <CardDescription>How file names and template variants are matched to an aspect ratio</CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => onRulesChange(DEFAULT_RATIO_RULES)}>
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Reset
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-4">
+          {rules.map((rule, index) => (
+            <div key={index} className="grid gap-3 p-4 bg-muted/30 rounded-lg md:grid-cols-[6rem_1fr_1fr_6rem_auto] md:items-end">
+              <div className="space-y-1">
+                <Label className="text-xs">Ratio</Label>
+                <Input value={rule.key} placeholder="3x4" onChange={(e) => updateRule(index, { key: e.target.value.trim() })} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Filename patterns</Label>
+                <PatternInput
+                  value={rule.filenamePatterns}
+                  placeholder="(3x4), 3x4"
+                  onCommit={(filenamePatterns) => updateRule(index, { filenamePatterns })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Variant title patterns</Label>
+                <PatternInput
+                  value={rule.variantPatterns}
+                  placeholder="30x40, 60x45"
+                  onCommit={(variantPatterns) => updateRule(index, { variantPatterns })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Tolerance</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  step={0.005}
+                  value={rule.tolerance}
+                  onChange={(e) => updateRule(index, { tolerance: Math.max(0, parseFloat(e.target.value) || 0) })}
+                />
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => removeRule(index)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={addRule}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add ratio
+          </Button>
+        </div>
+
+        {variantTitles.length > 0 && (
+          <div className="space-y-2">
+            <Label>Current template variants</Label>
+            <div className="grid gap-1 sm:grid-cols-2">
+              {variantTitles.map((title, i) => {
+                const tag = matchVariantRatio(title, rules);
+                return (
+                  <div key={`${title}-${i}`} className="flex items-center justify-between text-xs p-2 rounded border">
+                    <span className="truncate mr-2" title={title}>{title}</span>
+                    <Badge
+                      variant={tag === "default" ? "outline" : "secondary"}
+                      className={tag === "default" ? "border-warning text-warning" : ""}
+                    >
+                      {tag}
+                    </Badge>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
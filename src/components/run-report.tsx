@@ -0,0 +1,46 @@
+import React from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ListChecks } from "lucide-react";
+import type { GroupRunRecord, GroupRunStatus } from "@/lib/bulk-pipeline";
+
+interface RunReportProps {
+  groups: GroupRunRecord[];
+}
+
+const statusLabels: Record<GroupRunStatus, { label: string; className: string }> = {
+  untouched: { label: "Non toccato", className: "" },
+  uploading: { label: "Upload parziale", className: "border-warning text-warning" },
+  uploaded: { label: "Caricato, non inviato", className: "border-primary text-primary" },
+  submitting: { label: "Invio interrotto — verifica su Gelato", className: "border-warning text-warning" },
+  submitted: { label: "Inviato a Gelato", className: "border-success text-success" },
+};
+
+// Riepilogo per gruppo di una creazione annullata
+export function RunReport({ groups }: RunReportProps) {
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          Stato dei Prodotti all'Annullamento
+        </h3>
+        <div className="space-y-2">
+          {groups.map((g) => (
+            <div key={g.baseTitle} className="flex items-center justify-between gap-4 text-sm p-2 rounded border">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{g.title}</p>
+                {g.uploadedFiles.length > 0 && (
+                  <p className="text-xs text-muted-foreground">File su R2: {g.uploadedFiles.join(", ")}</p>
+                )}
+              </div>
+              <Badge variant="outline" className={statusLabels[g.status].className}>
+                {statusLabels[g.status].label}
+              </Badge>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,101 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Loader2, Mail, MailCheck, XCircle } from "lucide-react";
+import { sendMagicLink } from "@/lib/auth";
+
+// Accesso con magic link: stores, template e job sono legati all'utente (e al suo team)
+export function SignIn() {
+  const [email, setEmail] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSend = async () => {
+    const address = email.trim();
+    if (!address) return;
+
+    setIsSending(true);
+    setError(null);
+    try {
+      await sendMagicLink(address);
+      setSentTo(address);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md mx-auto">
+      <CardHeader className="text-center">
+        <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-gradient-to-br from-[hsl(var(--gelato-orange))] to-[hsl(var(--gelato-blue))]">
+          <Mail className="h-7 w-7 text-white" />
+        </div>
+        <CardTitle className="text-xl">Sign in</CardTitle>
+        <CardDescription>
+          Your stores, saved templates and jobs are private to you and your team
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sentTo ? (
+          <div className="text-center space-y-3">
+            <div className="flex items-center justify-center space-x-2 text-success">
+              <MailCheck className="h-5 w-5" />
+              <span className="font-medium">Check your inbox</span>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              We sent a sign-in link to <span className="font-medium text-foreground">{sentTo}</span>.
+            </p>
+            <Button variant="ghost" size="sm" onClick={() => setSentTo(null)}>
+              Use a different email
+            </Button>
+          </div>
+        ) : (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSend();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="email">Email</Label>
+              <Input
+                id="email"
+                type="email"
+                autoComplete="email"
+                placeholder="you@company.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+            </div>
+
+            {error && (
+              <Alert variant="destructive">
+                <XCircle className="h-4 w-4" />
+                <AlertTitle>Could not send the link</AlertTitle>
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <Button type="submit" disabled={!email.trim() || isSending} className="w-full">
+              {isSending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                "Send magic link"
+              )}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
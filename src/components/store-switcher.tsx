@@ -0,0 +1,44 @@
+import React from "react";
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Store } from "lucide-react";
+import type { StoreConnection } from "@/lib/store-connection";
+
+const ADD_STORE = "__add__";
+
+interface StoreSwitcherProps {
+  connections: StoreConnection[];
+  activeId: string | null;
+  onSelect: (connectionId: string) => void;
+  onAdd: () => void;
+  disabled?: boolean;
+}
+
+// Store attivo: template, preset e chiamate a Gelato seguono questa scelta
+export function StoreSwitcher({ connections, activeId, onSelect, onAdd, disabled }: StoreSwitcherProps) {
+  if (!connections.length) return null;
+
+  return (
+    <Select
+      value={activeId ?? ""}
+      onValueChange={(value) => (value === ADD_STORE ? onAdd() : onSelect(value))}
+      disabled={disabled}
+    >
+      <SelectTrigger className="h-8 w-52 text-xs">
+        <Store className="h-3 w-3 mr-1 shrink-0" />
+        <SelectValue placeholder="Choose a store" />
+      </SelectTrigger>
+      <SelectContent align="end">
+        {connections.map((c) => (
+          <SelectItem key={c.id} value={c.id} className="text-xs">
+            {c.store.name}
+            {c.store.platform && <span className="text-muted-foreground"> · {c.store.platform}</span>}
+          </SelectItem>
+        ))}
+        <SelectSeparator />
+        <SelectItem value={ADD_STORE} className="text-xs">
+          + Add store
+        </SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,83 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { History, Loader2, RefreshCw, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { abortUploadSession } from "@/lib/upload-engine";
+import { getDefaultSessionStore, type UploadSession } from "@/lib/upload-sessions";
+
+// Upload multipart interrotti (tab chiusa, rete caduta): si riprendono riselezionando lo stesso file
+export function UploadSessions() {
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<UploadSession[]>([]);
+  const [aborting, setAborting] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    const store = getDefaultSessionStore();
+    if (!store) return;
+    setSessions(await store.list().catch(() => []));
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const abort = async (session: UploadSession) => {
+    setAborting(session.id);
+    try {
+      await abortUploadSession(session);
+      toast({ title: "Upload annullato", description: session.fileName });
+    } catch (e) {
+      toast({
+        title: "Errore annullamento",
+        description: e instanceof Error ? e.message : String(e),
+        variant: "destructive",
+      });
+    } finally {
+      setAborting(null);
+      refresh();
+    }
+  };
+
+  if (!sessions.length) return null;
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Interrupted Uploads
+          </h3>
+          <div className="flex items-center gap-2">
+            <Badge variant="secondary">{sessions.length}</Badge>
+            <Button variant="ghost" size="sm" onClick={refresh}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Select the same file again to resume from the first missing chunk, or abort to free the space on the server.
+        </p>
+        <div className="space-y-3">
+          {sessions.map((s) => (
+            <div key={s.id} className="flex items-center gap-4 p-3 rounded-lg border">
+              <div className="flex-1 min-w-0 space-y-1">
+                <p className="text-sm font-medium truncate" title={s.fileName}>{s.fileName}</p>
+                <Progress value={s.totalParts ? (s.parts.length / s.totalParts) * 100 : 0} className="h-1.5" />
+                <p className="text-xs text-muted-foreground">
+                  {s.parts.length}/{s.totalParts} chunks · {new Date(s.updatedAt).toLocaleString()}
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => abort(s)} disabled={aborting === s.id}>
+                {aborting === s.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+              </Button>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
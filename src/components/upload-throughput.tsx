@@ -0,0 +1,46 @@
+import React from "react";
+import { Gauge, Timer } from "lucide-react";
+
+interface UploadThroughputProps {
+  loaded: number;
+  total: number;
+  startedAt: number;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
+
+const formatDuration = (seconds: number) => {
+  if (!isFinite(seconds)) return "—";
+  const s = Math.round(seconds);
+  if (s < 60) return `${s}s`;
+  const m = Math.floor(s / 60);
+  if (m < 60) return `${m}m ${s % 60}s`;
+  return `${Math.floor(m / 60)}h ${m % 60}m`;
+};
+
+// Velocità media dall'inizio del batch ed ETA sui byte ancora da inviare
+export function UploadThroughput({ loaded, total, startedAt }: UploadThroughputProps) {
+  const elapsed = Math.max((Date.now() - startedAt) / 1000, 0.001);
+  const bytesPerSecond = loaded / elapsed;
+  const eta = bytesPerSecond > 0 ? (total - loaded) / bytesPerSecond : Infinity;
+
+  return (
+    <div className="flex items-center justify-center gap-6 text-xs text-muted-foreground">
+      <span>
+        {formatBytes(loaded)} / {formatBytes(total)}
+      </span>
+      <span className="flex items-center gap-1">
+        <Gauge className="h-3 w-3" />
+        {formatBytes(bytesPerSecond)}/s
+      </span>
+      <span className="flex items-center gap-1">
+        <Timer className="h-3 w-3" />
+        ETA {loaded >= total ? "0s" : formatDuration(eta)}
+      </span>
+    </div>
+  );
+}
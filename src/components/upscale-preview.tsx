@@ -0,0 +1,127 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, ZoomIn } from "lucide-react";
+import { PRINT_DPI } from "@/lib/image-fit";
+import { previewUpscale } from "@/lib/image-processor";
+import { getUpscaler } from "@/lib/upscaler";
+import type { PipelineImage } from "@/lib/bulk-pipeline";
+import type { VariantQualityCheck } from "@/lib/print-quality";
+
+interface UpscalePreviewProps {
+  images: PipelineImage[];
+  /** controlli DPI del piano: per ogni immagine conta la variante con meno DPI (la più grande) */
+  checks: VariantQualityCheck[];
+  upscaler?: string;
+}
+
+type Candidate = { image: PipelineImage; check: VariantQualityCheck; factor: number };
+
+// Prima/dopo dell'upscaler sul ritaglio centrale, al fattore richiesto dalla variante più grande
+export function UpscalePreview({ images, checks, upscaler }: UpscalePreviewProps) {
+  const candidates = useMemo(() => {
+    const byImage = new Map<string, Candidate>();
+    for (const check of checks) {
+      if (check.dpi === null || check.dpi >= PRINT_DPI) continue;
+      const image = images.find((img) => img.id === check.imageId);
+      if (!image) continue;
+      const factor = PRINT_DPI / check.dpi;
+      const current = byImage.get(image.id);
+      if (!current || factor > current.factor) byImage.set(image.id, { image, check, factor });
+    }
+    return [...byImage.values()].sort((a, b) => b.factor - a.factor);
+  }, [images, checks]);
+
+  const [selectedId, setSelectedId] = useState<string | undefined>();
+  const [preview, setPreview] = useState<{ before: string; after: string } | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = candidates.find((c) => c.image.id === selectedId) ?? candidates[0];
+
+  useEffect(() => {
+    setPreview(null);
+    setError(null);
+  }, [selected?.image.id, selected?.factor]);
+
+  useEffect(
+    () => () => {
+      if (preview) {
+        URL.revokeObjectURL(preview.before);
+        URL.revokeObjectURL(preview.after);
+      }
+    },
+    [preview]
+  );
+
+  if (!candidates.length) return null;
+
+  const handleRender = async () => {
+    if (!selected) return;
+    setIsRendering(true);
+    setError(null);
+    try {
+      const result = await previewUpscale(selected.image.file, { factor: selected.factor, upscaler });
+      setPreview({ before: URL.createObjectURL(result.before), after: URL.createObjectURL(result.after) });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-4">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <ZoomIn className="h-5 w-5" />
+          Anteprima upscaling
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          {candidates.length} immagini verranno ingrandite fino a {PRINT_DPI} DPI con {getUpscaler(upscaler).label}.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <Select value={selected?.image.id} onValueChange={setSelectedId}>
+            <SelectTrigger className="w-72 text-xs">
+              <SelectValue placeholder="Scegli un'immagine" />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map((c) => (
+                <SelectItem key={c.image.id} value={c.image.id} className="text-xs">
+                  {c.image.name} · ×{c.factor.toFixed(1)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={handleRender} disabled={isRendering}>
+            {isRendering && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Genera anteprima
+          </Button>
+        </div>
+        {selected && (
+          <p className="text-xs text-muted-foreground">
+            Variante più grande: {selected.check.variantTitle}
+            {selected.check.areaMm && ` (${selected.check.areaMm.width}×${selected.check.areaMm.height} mm)`}, {selected.check.dpi} DPI
+            effettivi → ingrandimento ×{selected.factor.toFixed(2)}
+          </p>
+        )}
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        {preview && (
+          <div className="grid grid-cols-2 gap-4">
+            <figure className="space-y-1">
+              <img src={preview.before} alt="Prima" className="w-full rounded border bg-muted" />
+              <figcaption className="text-xs text-muted-foreground text-center">Prima: ingrandimento semplice</figcaption>
+            </figure>
+            <figure className="space-y-1">
+              <img src={preview.after} alt="Dopo" className="w-full rounded border bg-muted" />
+              <figcaption className="text-xs text-muted-foreground text-center">Dopo: {getUpscaler(upscaler).label}</figcaption>
+            </figure>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
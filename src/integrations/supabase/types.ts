@@ -14,6 +14,187 @@ export type Database = {
   }
   public: {
     Tables: {
+      bulk_idempotency_keys: {
+        Row: {
+          created_at: string
+          external_id: string | null
+          job_id: string | null
+          key: string
+          preview_url: string | null
+          product_id: string | null
+          status: string | null
+          store_id: string
+          template_id: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          external_id?: string | null
+          job_id?: string | null
+          key: string
+          preview_url?: string | null
+          product_id?: string | null
+          status?: string | null
+          store_id: string
+          template_id: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          external_id?: string | null
+          job_id?: string | null
+          key?: string
+          preview_url?: string | null
+          product_id?: string | null
+          status?: string | null
+          store_id?: string
+          template_id?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bulk_idempotency_keys_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "bulk_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bulk_job_items: {
+        Row: {
+          attempts: number
+          created_at: string
+          error: string | null
+          external_id: string | null
+          gelato_status: string | null
+          id: number
+          job_id: string
+          position: number
+          preview_url: string | null
+          product_id: string | null
+          request: Json
+          reused: boolean
+          status: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          error?: string | null
+          external_id?: string | null
+          gelato_status?: string | null
+          id?: never
+          job_id: string
+          position: number
+          preview_url?: string | null
+          product_id?: string | null
+          request: Json
+          reused?: boolean
+          status?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          error?: string | null
+          external_id?: string | null
+          gelato_status?: string | null
+          id?: never
+          job_id?: string
+          position?: number
+          preview_url?: string | null
+          product_id?: string | null
+          request?: Json
+          reused?: boolean
+          status?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bulk_job_items_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "bulk_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bulk_jobs: {
+        Row: {
+          connection_id: string | null
+          created_at: string
+          error: string | null
+          error_count: number
+          finished_at: string | null
+          id: string
+          publish: boolean
+          sales_channels: string[]
+          status: string
+          store_id: string | null
+          success_count: number
+          template_id: string
+          total: number
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          connection_id?: string | null
+          created_at?: string
+          error?: string | null
+          error_count?: number
+          finished_at?: string | null
+          id?: string
+          publish?: boolean
+          sales_channels?: string[]
+          status?: string
+          store_id?: string | null
+          success_count?: number
+          template_id: string
+          total?: number
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          connection_id?: string | null
+          created_at?: string
+          error?: string | null
+          error_count?: number
+          finished_at?: string | null
+          id?: string
+          publish?: boolean
+          sales_channels?: string[]
+          status?: string
+          store_id?: string | null
+          success_count?: number
+          template_id?: string
+          total?: number
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bulk_jobs_connection_id_fkey"
+            columns: ["connection_id"]
+            isOneToOne: false
+            referencedRelation: "store_connections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bulk_jobs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       feedback: {
         Row: {
           content: string | null
@@ -32,12 +213,180 @@ export type Database = {
         }
         Relationships: []
       }
+      saved_templates: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          product_type: string | null
+          store_id: string
+          template_id: string
+          user_id: string
+          variants: string[]
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          product_type?: string | null
+          store_id: string
+          template_id: string
+          user_id?: string
+          variants?: string[]
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          product_type?: string | null
+          store_id?: string
+          template_id?: string
+          user_id?: string
+          variants?: string[]
+        }
+        Relationships: []
+      }
+      store_connections: {
+        Row: {
+          created_at: string
+          currency: string | null
+          id: string
+          key_ciphertext: string
+          key_hint: string
+          key_iv: string
+          platform: string | null
+          rotated_at: string | null
+          sales_channels: string[]
+          store_id: string
+          store_name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          currency?: string | null
+          id?: string
+          key_ciphertext: string
+          key_hint: string
+          key_iv: string
+          platform?: string | null
+          rotated_at?: string | null
+          sales_channels?: string[]
+          store_id: string
+          store_name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          currency?: string | null
+          id?: string
+          key_ciphertext?: string
+          key_hint?: string
+          key_iv?: string
+          platform?: string | null
+          rotated_at?: string | null
+          sales_channels?: string[]
+          store_id?: string
+          store_name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      team_members: {
+        Row: {
+          created_at: string
+          role: string
+          team_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          role?: string
+          team_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: string
+          team_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_members_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      user_settings: {
+        Row: {
+          id: string
+          kind: string
+          store_id: string
+          template_id: string
+          updated_at: string
+          user_id: string
+          value: Json
+        }
+        Insert: {
+          id?: string
+          kind: string
+          store_id: string
+          template_id?: string
+          updated_at?: string
+          user_id?: string
+          value: Json
+        }
+        Update: {
+          id?: string
+          kind?: string
+          store_id?: string
+          template_id?: string
+          updated_at?: string
+          user_id?: string
+          value?: Json
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      is_team_member: {
+        Args: { member: string; team: string }
+        Returns: boolean
+      }
+      shares_workspace: {
+        Args: { owner: string; viewer: string }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
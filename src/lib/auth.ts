@@ -0,0 +1,33 @@
+// ==========================================
+// AUTENTICAZIONE (Supabase Auth, magic link)
+// Tutte le edge function verificano il JWT: ogni chiamata al backend porta il token della sessione.
+// ==========================================
+
+import { supabase } from "@/integrations/supabase/client";
+
+/** Token dell'utente Supabase, se c'è una sessione */
+export async function authHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession().catch(() => ({ data: { session: null } }));
+  const token = data.session?.access_token;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/** Id dell'utente della sessione corrente, se c'è */
+export async function currentUserId(): Promise<string | undefined> {
+  const { data } = await supabase.auth.getSession().catch(() => ({ data: { session: null } }));
+  return data.session?.user.id;
+}
+
+/** Invia il link di accesso; al click si torna all'app già autenticati */
+export async function sendMagicLink(email: string): Promise<void> {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: window.location.origin },
+  });
+  if (error) throw error;
+}
+
+export async function signOut(): Promise<void> {
+  const { error } = await supabase.auth.signOut();
+  if (error) throw error;
+}
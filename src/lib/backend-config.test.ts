@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// I test girano in Node: localStorage in memoria, ricreato a ogni test
+function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (i) => [...items.keys()][i] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, String(value)),
+    removeItem: (key) => void items.delete(key),
+    clear: () => items.clear(),
+  };
+}
+
+// VITE_BACKEND_URL si legge al caricamento del modulo: ogni test lo reimporta
+const loadConfig = () => import("@/lib/backend-config");
+
+beforeEach(() => {
+  vi.resetModules();
+  vi.stubGlobal("localStorage", memoryStorage());
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe("getBackendUrl", () => {
+  it("senza override usa VITE_BACKEND_URL, senza slash finali", async () => {
+    vi.stubEnv("VITE_BACKEND_URL", "https://env.example.dev/");
+    const { getBackendUrl } = await loadConfig();
+    expect(getBackendUrl()).toBe("https://env.example.dev");
+  });
+
+  it("senza VITE_BACKEND_URL usa la produzione", async () => {
+    vi.stubEnv("VITE_BACKEND_URL", "");
+    const { getBackendUrl, PRODUCTION_BACKEND_URL } = await loadConfig();
+    expect(getBackendUrl()).toBe(PRODUCTION_BACKEND_URL);
+  });
+
+  it("l'override in-app vince su VITE_BACKEND_URL finché non viene tolto", async () => {
+    vi.stubEnv("VITE_BACKEND_URL", "https://env.example.dev");
+    const { getBackendUrl, setBackendOverride } = await loadConfig();
+    setBackendOverride("  http://localhost:8787//  ");
+    expect(getBackendUrl()).toBe("http://localhost:8787");
+    setBackendOverride(null);
+    expect(getBackendUrl()).toBe("https://env.example.dev");
+  });
+});
+
+describe("URL non validi", () => {
+  it("setBackendOverride rifiuta un URL malformato e lascia quello attivo", async () => {
+    const { getBackendUrl, InvalidBackendUrlError, setBackendOverride } = await loadConfig();
+    setBackendOverride("https://staging.example.dev");
+    expect(() => setBackendOverride("staging.example.dev")).toThrow(InvalidBackendUrlError);
+    expect(() => setBackendOverride("ftp://staging.example.dev")).toThrow(InvalidBackendUrlError);
+    expect(getBackendUrl()).toBe("https://staging.example.dev");
+  });
+
+  it("un override corrotto nello storage viene ignorato", async () => {
+    vi.stubEnv("VITE_BACKEND_URL", "https://env.example.dev");
+    localStorage.setItem("gelato.backendUrl", "not a url");
+    const { getBackendOverride, getBackendUrl } = await loadConfig();
+    expect(getBackendOverride()).toBeNull();
+    expect(getBackendUrl()).toBe("https://env.example.dev");
+  });
+});
+
+describe("backendUrl", () => {
+  it("unisce base e percorso con un solo slash", async () => {
+    const { backendUrl } = await loadConfig();
+    expect(backendUrl("/upload-start", "https://worker.test/")).toBe("https://worker.test/upload-start");
+    expect(backendUrl("upload-start", "https://worker.test//")).toBe("https://worker.test/upload-start");
+    expect(backendUrl("gelato-job-status?jobId=1", "https://worker.test")).toBe("https://worker.test/gelato-job-status?jobId=1");
+  });
+});
@@ -0,0 +1,116 @@
+// ==========================================
+// CONFIGURAZIONE BACKEND
+// Ordine di priorità: override in-app (localStorage) → VITE_BACKEND_URL → produzione.
+// Tutte le chiamate di rete (template, bulk-create, upload multipart) passano da qui.
+// ==========================================
+
+export const PRODUCTION_BACKEND_URL = "https://gelato-backend.andrea-bilotta00.workers.dev";
+
+const ENV_BACKEND_URL = import.meta.env.VITE_BACKEND_URL as string | undefined;
+const ENV_STAGING_BACKEND_URL = import.meta.env.VITE_BACKEND_URL_STAGING as string | undefined;
+const LOCAL_BACKEND_URL = "http://localhost:8787";
+
+const LS_KEY = "gelato.backendUrl";
+
+export type BackendPreset = {
+  id: "production" | "staging" | "local";
+  label: string;
+  url: string;
+};
+
+export const BACKEND_PRESETS: BackendPreset[] = [
+  { id: "production", label: "Production", url: PRODUCTION_BACKEND_URL },
+  ...(ENV_STAGING_BACKEND_URL ? [{ id: "staging" as const, label: "Staging", url: ENV_STAGING_BACKEND_URL }] : []),
+  { id: "local", label: "Local", url: LOCAL_BACKEND_URL },
+];
+
+const trimSlash = (url: string) => url.trim().replace(/\/+$/, "");
+
+export class InvalidBackendUrlError extends Error {
+  constructor(readonly url: string) {
+    super(`URL del backend non valido: "${url}" (serve un indirizzo http:// o https://)`);
+    this.name = "InvalidBackendUrlError";
+  }
+}
+
+/** URL del backend senza slash finali; lancia InvalidBackendUrlError se non è un URL http(s) */
+export function normalizeBackendUrl(url: string): string {
+  const trimmed = trimSlash(url);
+  let protocol: string;
+  try {
+    protocol = new URL(trimmed).protocol;
+  } catch {
+    throw new InvalidBackendUrlError(url);
+  }
+  if (protocol !== "http:" && protocol !== "https:") throw new InvalidBackendUrlError(url);
+  return trimmed;
+}
+
+export function getBackendOverride(): string | null {
+  try {
+    const raw = localStorage.getItem(LS_KEY);
+    // un valore corrotto nello storage non deve bloccare l'app: si usa il backend predefinito
+    return raw ? normalizeBackendUrl(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Salva l'override; un URL non valido viene rifiutato prima di toccare lo storage */
+export function setBackendOverride(url: string | null) {
+  const normalized = url && url.trim() ? normalizeBackendUrl(url) : null;
+  try {
+    if (normalized) localStorage.setItem(LS_KEY, normalized);
+    else localStorage.removeItem(LS_KEY);
+  } catch { /* storage non disponibile */ }
+}
+
+/** URL del backend predefinito per questa build (senza override) */
+export function getDefaultBackendUrl(): string {
+  return trimSlash(ENV_BACKEND_URL || PRODUCTION_BACKEND_URL);
+}
+
+export function getBackendUrl(): string {
+  return getBackendOverride() ?? getDefaultBackendUrl();
+}
+
+export type UploadConcurrency = {
+  /** file caricati contemporaneamente */
+  files: number;
+  /** fette dello stesso file inviate contemporaneamente */
+  parts: number;
+};
+
+const CONCURRENCY_LS_KEY = "gelato.uploadConcurrency";
+export const DEFAULT_UPLOAD_CONCURRENCY: UploadConcurrency = { files: 2, parts: 4 };
+const MAX_CONCURRENCY = 16;
+
+const clampConcurrency = (n: unknown, fallback: number) =>
+  typeof n === "number" && n >= 1 ? Math.min(Math.floor(n), MAX_CONCURRENCY) : fallback;
+
+export function getUploadConcurrency(): UploadConcurrency {
+  try {
+    const raw = JSON.parse(localStorage.getItem(CONCURRENCY_LS_KEY) || "{}");
+    return {
+      files: clampConcurrency(raw.files, DEFAULT_UPLOAD_CONCURRENCY.files),
+      parts: clampConcurrency(raw.parts, DEFAULT_UPLOAD_CONCURRENCY.parts),
+    };
+  } catch {
+    return DEFAULT_UPLOAD_CONCURRENCY;
+  }
+}
+
+export function setUploadConcurrency(value: UploadConcurrency) {
+  try {
+    localStorage.setItem(CONCURRENCY_LS_KEY, JSON.stringify({
+      files: clampConcurrency(value.files, DEFAULT_UPLOAD_CONCURRENCY.files),
+      parts: clampConcurrency(value.parts, DEFAULT_UPLOAD_CONCURRENCY.parts),
+    }));
+  } catch { /* storage non disponibile */ }
+}
+
+/** Costruisce l'URL completo di un endpoint del backend */
+export function backendUrl(path: string, baseUrl: string = getBackendUrl()): string {
+  const cleanPath = path.startsWith('/') ? path : `/${path}`;
+  return `${trimSlash(baseUrl)}${cleanPath}`;
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { bleedGeometry, DEFAULT_BLEED_SETTINGS, validateBleedSettings } from "@/lib/bleed";
+
+describe("bleedGeometry", () => {
+  it("aggiunge l'abbondanza su ogni lato", () => {
+    const g = bleedGeometry({ width: 100, height: 200 }, { ...DEFAULT_BLEED_SETTINGS, bleedMm: 5, safeMm: 5 });
+    expect(g.totalMm).toEqual({ width: 110, height: 210 });
+    expect(g.trim.left).toBeCloseTo((5 / 110) * 100);
+    expect(g.safe.width).toBeCloseTo((90 / 110) * 100);
+  });
+
+  it("senza abbondanza la linea di taglio è il bordo", () => {
+    const g = bleedGeometry({ width: 100, height: 100 }, DEFAULT_BLEED_SETTINGS);
+    expect(g.trim).toEqual({ left: 0, top: 0, width: 100, height: 100 });
+  });
+});
+
+describe("validateBleedSettings", () => {
+  it("controlla limiti e colore", () => {
+    expect(validateBleedSettings(DEFAULT_BLEED_SETTINGS)).toBeNull();
+    expect(validateBleedSettings({ ...DEFAULT_BLEED_SETTINGS, bleedMm: 50 })).not.toBeNull();
+    expect(validateBleedSettings({ ...DEFAULT_BLEED_SETTINGS, fill: "solid", color: "red" })).not.toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+// ==========================================
+// ABBONDANZA (BLEED) E AREA SICURA
+// Impostazioni in mm dell'utente, salvate in user_settings per store e template.
+// L'abbondanza viene aggiunta attorno all'area di stampa durante la preparazione del derivato
+// (bordi specchiati, sfocati o a tinta unita); l'area sicura serve solo all'anteprima.
+// ==========================================
+
+import { storeScopedKey } from "@/lib/store-scope";
+import { loadUserSetting, saveUserSettingLater } from "@/lib/user-settings";
+
+export type BleedFill = "mirror" | "blur" | "solid";
+
+export type BleedSettings = {
+  /** abbondanza per lato, 0 = disattivata */
+  bleedMm: number;
+  /** margine interno all'area di stampa entro cui tenere testi e dettagli */
+  safeMm: number;
+  fill: BleedFill;
+  /** colore per fill "solid" */
+  color: string;
+};
+
+export const DEFAULT_BLEED_SETTINGS: BleedSettings = { bleedMm: 0, safeMm: 3, fill: "mirror", color: "#ffffff" };
+
+/** Oltre questo valore l'abbondanza specchiata supererebbe l'immagine stessa sui formati piccoli */
+export const MAX_BLEED_MM = 20;
+
+/** prefisso localStorage usato prima della tabella, importato al primo caricamento */
+const LS_PREFIX = "gelato.bleed.";
+
+export async function loadBleedSettings(templateId: string, storeId?: string | null): Promise<BleedSettings> {
+  if (!storeId) return DEFAULT_BLEED_SETTINGS;
+  const raw = (await loadUserSetting("bleed", storeId, templateId, storeScopedKey(LS_PREFIX + templateId, storeId))) as Partial<BleedSettings> | null;
+  if (raw && typeof raw.bleedMm === "number" && typeof raw.safeMm === "number") return { ...DEFAULT_BLEED_SETTINGS, ...raw };
+  return DEFAULT_BLEED_SETTINGS;
+}
+
+/** Salvataggio ritardato: l'editor chiama a ogni modifica */
+export function saveBleedSettings(templateId: string, settings: BleedSettings, storeId: string) {
+  saveUserSettingLater("bleed", storeId, templateId, settings);
+}
+
+/** Errore da mostrare sotto le impostazioni, null se sono valide */
+export function validateBleedSettings(settings: BleedSettings): string | null {
+  if (settings.bleedMm < 0 || settings.bleedMm > MAX_BLEED_MM) return `Bleed must be between 0 and ${MAX_BLEED_MM} mm`;
+  if (settings.safeMm < 0) return "Safe area cannot be negative";
+  if (settings.fill === "solid" && !/^#[0-9a-f]{6}$/i.test(settings.color)) return "Fill colour must be a hex colour like #ffffff";
+  return null;
+}
+
+/** Rettangolo in percentuale del file finale (abbondanza inclusa), per l'overlay */
+export type OverlayRect = { left: number; top: number; width: number; height: number };
+
+/**
+ * Geometria del file finale per un'area di stampa: dimensioni con abbondanza, linea di taglio
+ * e area sicura espresse in percentuale (pronte per posizionamento CSS).
+ */
+export function bleedGeometry(areaMm: { width: number; height: number }, settings: BleedSettings) {
+  const bleed = Math.max(0, settings.bleedMm);
+  const total = { width: areaMm.width + 2 * bleed, height: areaMm.height + 2 * bleed };
+  const rect = (inset: number): OverlayRect => ({
+    left: (inset / total.width) * 100,
+    top: (inset / total.height) * 100,
+    width: (Math.max(0, total.width - 2 * inset) / total.width) * 100,
+    height: (Math.max(0, total.height - 2 * inset) / total.height) * 100,
+  });
+  return { totalMm: total, trim: rect(bleed), safe: rect(bleed + Math.max(0, settings.safeMm)) };
+}
@@ -0,0 +1,168 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { applyJobEvent, BulkJobNotFoundError, BulkJobStaleError, cancelJob, readJobStream, waitForJob, type BulkJobItem, type BulkJobStatus } from "@/lib/bulk-jobs";
+
+vi.mock("@/lib/auth", () => ({ authHeaders: async () => ({}) }));
+
+const JOB_ID = "5f0c6c1e-8d1a-4b7e-9a51-2d0f3c9b7e11";
+
+const job = (patch: Partial<BulkJobStatus>): BulkJobStatus => ({
+  id: JOB_ID,
+  status: "running",
+  templateId: "tpl",
+  total: 1,
+  completed: 0,
+  successCount: 0,
+  errorCount: 0,
+  createdAt: "2026-10-19T10:00:00Z",
+  updatedAt: new Date().toISOString(),
+  items: [],
+  ...patch,
+});
+
+/** gelato-job-status risponde con gli stati in sequenza, poi ripete l'ultimo */
+function serveJobs(...states: BulkJobStatus[]) {
+  let call = 0;
+  const fetchMock = vi.fn(async () => Response.json(states[Math.min(call++, states.length - 1)]));
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("waitForJob", () => {
+  it("ritorna il job concluso", async () => {
+    serveJobs(job({}), job({ status: "completed", completed: 1 }));
+    const done = await waitForJob(JOB_ID, { baseUrl: "http://backend", intervalMs: 1 });
+    expect(done.status).toBe("completed");
+  });
+
+  it("un job annullato è concluso", async () => {
+    serveJobs(job({ cancelRequestedAt: "2026-10-19T10:01:00Z" }), job({ status: "cancelled", completed: 1 }));
+    const done = await waitForJob(JOB_ID, { baseUrl: "http://backend", intervalMs: 1 });
+    expect(done.status).toBe("cancelled");
+  });
+
+  it("non lascia listener di abort sul segnale a ogni polling", async () => {
+    serveJobs(job({}), job({}), job({}), job({ status: "completed", completed: 1 }));
+    const { signal } = new AbortController();
+    const added = vi.spyOn(signal, "addEventListener");
+    const removed = vi.spyOn(signal, "removeEventListener");
+    await waitForJob(JOB_ID, { baseUrl: "http://backend", intervalMs: 1, signal });
+    expect(added).toHaveBeenCalledTimes(3);
+    expect(removed).toHaveBeenCalledTimes(3);
+  });
+
+  it("l'abort interrompe la pausa tra due polling", async () => {
+    serveJobs(job({}));
+    const controller = new AbortController();
+    const waiting = waitForJob(JOB_ID, { baseUrl: "http://backend", intervalMs: 60_000, signal: controller.signal });
+    setTimeout(() => controller.abort(new DOMException("Annullato", "AbortError")), 5);
+    await expect(waiting).rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("si ferma su un job che non si aggiorna più", async () => {
+    const fetchMock = serveJobs(job({ updatedAt: "2026-10-19T10:00:00Z" }));
+    const error = await waitForJob(JOB_ID, { baseUrl: "http://backend", intervalMs: 1, staleAfterMs: 60_000 }).catch((e) => e);
+    expect(error).toBeInstanceOf(BulkJobStaleError);
+    expect(error.job.updatedAt).toBe("2026-10-19T10:00:00Z");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("si ferma se il backend non risponde mai", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("down", { status: 503 })));
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const error = await waitForJob(JOB_ID, { baseUrl: "http://backend", intervalMs: 1, staleAfterMs: 20 }).catch((e) => e);
+    expect(error).toBeInstanceOf(BulkJobStaleError);
+    expect(error.job).toBeNull();
+  });
+});
+
+describe("cancelJob", () => {
+  it("chiede l'annullamento del job al backend", async () => {
+    const fetchMock = vi.fn(async () => Response.json({ jobId: JOB_ID, status: "running", cancelRequestedAt: "2026-10-19T10:01:00Z" }));
+    vi.stubGlobal("fetch", fetchMock);
+    await cancelJob(JOB_ID, { baseUrl: "http://backend" });
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("http://backend/gelato-job-cancel");
+    expect(init.method).toBe("POST");
+    expect(JSON.parse(init.body as string)).toEqual({ jobId: JOB_ID });
+  });
+
+  it("un job inesistente dà BulkJobNotFoundError", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => Response.json({ error: { code: "not_found" } }, { status: 404 })));
+    await expect(cancelJob(JOB_ID, { baseUrl: "http://backend" })).rejects.toBeInstanceOf(BulkJobNotFoundError);
+  });
+});
+
+/** Risposta SSE che consegna i chunk così come sono, anche a metà di un evento */
+function sseResponse(...chunks: string[]) {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+}
+
+const item = (patch: Partial<BulkJobItem>): BulkJobItem => ({
+  position: 0,
+  title: "Sunset",
+  status: "pending",
+  attempts: 0,
+  updatedAt: "2026-10-19T10:00:01Z",
+  ...patch,
+});
+
+const frame = (event: string, data: unknown) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+describe("readJobStream", () => {
+  const snapshot = job({ total: 2, items: [item({ position: 0 }), item({ position: 1, title: "Sea" })] });
+
+  it("ricompone gli eventi spezzati tra più chunk", async () => {
+    const text = frame("job", snapshot) + frame("item", item({ position: 0, status: "active" }));
+    const updates: BulkJobStatus[] = [];
+    const result = await readJobStream(sseResponse(text.slice(0, 7), text.slice(7, 60), text.slice(60)), {
+      onUpdate: (update) => updates.push(update),
+    });
+    expect(updates).toHaveLength(2);
+    expect(result.job?.items[0].status).toBe("active");
+    expect(result.job?.successCount).toBe(1);
+  });
+
+  it("unisce le righe data: multiple e accetta CRLF", async () => {
+    const [first, ...rest] = JSON.stringify(snapshot, null, 2).split("\n");
+    const multiLine = `event: job\r\ndata: ${first}\r\n${rest.map((line) => `data: ${line}`).join("\r\n")}\r\n\r\n`;
+    const result = await readJobStream(sseResponse(multiLine));
+    expect(result.job?.items).toHaveLength(2);
+  });
+
+  it("ignora keepalive ed eventi sconosciuti", async () => {
+    const result = await readJobStream(
+      sseResponse(": keepalive\n\n", frame("job", snapshot), frame("progress", { percent: 50 }), frame("done", { status: "completed", finishedAt: "2026-10-19T10:05:00Z" }))
+    );
+    expect(result).toMatchObject({ finished: true, job: { status: "completed", finishedAt: "2026-10-19T10:05:00Z" } });
+  });
+
+  it("segnala lo stream chiuso prima di done", async () => {
+    const result = await readJobStream(sseResponse(frame("job", snapshot), frame("item", item({ position: 1, status: "error" })), "event: item\ndata: {"));
+    expect(result.finished).toBe(false);
+    expect(result.job).toMatchObject({ completed: 1, errorCount: 1 });
+  });
+
+  it("senza snapshot iniziale non ricostruisce nulla", async () => {
+    const result = await readJobStream(sseResponse(frame("item", item({ status: "active" }))));
+    expect(result).toEqual({ job: null, finished: false });
+  });
+});
+
+describe("applyJobEvent", () => {
+  it("ricalcola i contatori dagli item conclusi", () => {
+    const start = job({ total: 2, items: [item({ position: 0 }), item({ position: 1 })] });
+    const next = applyJobEvent(start, { type: "item", item: item({ position: 1, status: "publishing_error" }) });
+    expect(next).toMatchObject({ completed: 1, successCount: 0, errorCount: 1, status: "running" });
+  });
+});
@@ -0,0 +1,322 @@
+// ==========================================
+// JOB ASINCRONI DI CREAZIONE PRODOTTI
+// gelato-bulk-create risponde subito con un jobId; lo stato dei prodotti si legge
+// da gelato-job-status, oppure live dallo stream SSE della stessa richiesta.
+// Il job attivo resta in localStorage per riconnettersi dopo un reload.
+// ==========================================
+
+import type { ProductResult } from "@/lib/bulk-pipeline";
+import { backendUrl, getBackendUrl } from "@/lib/backend-config";
+import { apiErrorMessage } from "@/lib/bulk-schemas";
+import { authHeaders } from "@/lib/auth";
+
+export type BulkJobState = "queued" | "running" | "completed" | "failed" | "cancelled";
+
+export type BulkJobItem = {
+  position: number;
+  title: string;
+  /** pending | creating | polling, poi lo stato finale Gelato (active, publishing_error, timeout, error) o cancelled */
+  status: string;
+  /** ultimo stato letto da Gelato durante il polling */
+  gelatoStatus?: string;
+  productId?: string;
+  externalId?: string;
+  previewUrl?: string;
+  error?: string;
+  attempts: number;
+  /** prodotto già esistente con la stessa chiave di idempotenza, non ricreato */
+  reused?: boolean;
+  updatedAt: string;
+};
+
+export type BulkJobStatus = {
+  id: string;
+  status: BulkJobState;
+  templateId: string;
+  storeId?: string;
+  publish?: boolean;
+  /** vuoto per le bozze */
+  salesChannels?: string[];
+  total: number;
+  completed: number;
+  successCount: number;
+  errorCount: number;
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  /** annullamento richiesto: i prodotti non ancora avviati non verranno creati */
+  cancelRequestedAt?: string;
+  items: BulkJobItem[];
+};
+
+/** Job salvato nel browser finché non termina */
+export type ActiveJob = {
+  jobId: string;
+  baseUrl: string;
+  total: number;
+  startedAt: number;
+};
+
+export const JOB_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Un job non concluso senza attività da così tanto è considerato fermo (function terminata
+ * a metà, backend irraggiungibile): si smette di interrogarlo. Un item fa al massimo qualche
+ * minuto di retry e polling su Gelato.
+ */
+export const JOB_STALE_AFTER_MS = 10 * 60 * 1000;
+
+const ACTIVE_JOB_KEY = "gelato.activeJob";
+const IN_PROGRESS_ITEM_STATUSES = ["pending", "creating", "polling"];
+
+export function isJobFinished(job: BulkJobStatus): boolean {
+  return job.status === "completed" || job.status === "failed" || job.status === "cancelled";
+}
+
+export function isItemFinished(item: BulkJobItem): boolean {
+  return !IN_PROGRESS_ITEM_STATUSES.includes(item.status);
+}
+
+/** Ultimo aggiornamento del job o di uno dei suoi item (il job non viene toccato a ogni item) */
+export function jobLastActivity(job: BulkJobStatus): number {
+  return Math.max(Date.parse(job.updatedAt) || 0, ...job.items.map((item) => Date.parse(item.updatedAt) || 0));
+}
+
+/** Risultati nel formato di ProductResult, solo per gli item già conclusi */
+export function jobResults(job: BulkJobStatus): ProductResult[] {
+  return job.items.filter(isItemFinished).map(({ title, status, productId, externalId, previewUrl, error, attempts, reused }) => ({
+    title,
+    status,
+    productId,
+    externalId,
+    previewUrl,
+    error,
+    attempts,
+    reused,
+  }));
+}
+
+export function loadActiveJob(): ActiveJob | null {
+  try {
+    const raw = localStorage.getItem(ACTIVE_JOB_KEY);
+    return raw ? (JSON.parse(raw) as ActiveJob) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveActiveJob(job: ActiveJob) {
+  try {
+    localStorage.setItem(ACTIVE_JOB_KEY, JSON.stringify(job));
+  } catch { /* storage pieno o disabilitato */ }
+}
+
+export function clearActiveJob(jobId?: string) {
+  try {
+    if (jobId && loadActiveJob()?.jobId !== jobId) return;
+    localStorage.removeItem(ACTIVE_JOB_KEY);
+  } catch { /* storage disabilitato */ }
+}
+
+export class BulkJobNotFoundError extends Error {
+  constructor(readonly jobId: string) {
+    super(`Job ${jobId} non trovato`);
+    this.name = "BulkJobNotFoundError";
+  }
+}
+
+/** Il job non è concluso ma non dà segni di vita da `staleAfterMs`: il polling si ferma */
+export class BulkJobStaleError extends Error {
+  constructor(
+    readonly jobId: string,
+    /** ultimo stato letto, null se il backend non ha mai risposto */
+    readonly job: BulkJobStatus | null,
+    readonly staleAfterMs: number
+  ) {
+    super(`Il job ${jobId} non si aggiorna da oltre ${Math.round(staleAfterMs / 60000)} minuti`);
+    this.name = "BulkJobStaleError";
+  }
+}
+
+export async function fetchJobStatus(jobId: string, { baseUrl = getBackendUrl(), signal }: { baseUrl?: string; signal?: AbortSignal } = {}): Promise<BulkJobStatus> {
+  const res = await fetch(backendUrl(`/gelato-job-status?jobId=${encodeURIComponent(jobId)}`, baseUrl), {
+    headers: await authHeaders(),
+    signal,
+  });
+  if (res.status === 404) throw new BulkJobNotFoundError(jobId);
+  if (!res.ok) {
+    const raw = await res.text().catch(() => "");
+    let message = raw;
+    try {
+      message = apiErrorMessage(JSON.parse(raw), raw);
+    } catch { /* risposta non JSON */ }
+    throw new Error(`Stato job: ${res.status} ${message}`);
+  }
+  return (await res.json()) as BulkJobStatus;
+}
+
+/**
+ * Chiede al backend di annullare il job: i prodotti non ancora avviati non vengono creati,
+ * quelli già inviati a Gelato terminano. Un job già concluso resta com'è.
+ */
+export async function cancelJob(jobId: string, { baseUrl = getBackendUrl() }: { baseUrl?: string } = {}): Promise<void> {
+  const res = await fetch(backendUrl("/gelato-job-cancel", baseUrl), {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+    body: JSON.stringify({ jobId }),
+  });
+  if (res.status === 404) throw new BulkJobNotFoundError(jobId);
+  if (!res.ok) {
+    const raw = await res.text().catch(() => "");
+    let message = raw;
+    try {
+      message = apiErrorMessage(JSON.parse(raw), raw);
+    } catch { /* risposta non JSON */ }
+    throw new Error(`Annullamento job: ${res.status} ${message}`);
+  }
+}
+
+export type WaitForJobOptions = {
+  baseUrl?: string;
+  signal?: AbortSignal;
+  intervalMs?: number;
+  /** senza attività per questo tempo l'attesa termina con BulkJobStaleError */
+  staleAfterMs?: number;
+  onUpdate?: (job: BulkJobStatus) => void;
+};
+
+/**
+ * Interroga gelato-job-status finché il job non è concluso. Gli errori di rete non interrompono
+ * l'attesa, ma se né il job né i suoi item cambiano per `staleAfterMs` si rinuncia.
+ */
+export async function waitForJob(
+  jobId: string,
+  { baseUrl, signal, intervalMs = JOB_POLL_INTERVAL_MS, staleAfterMs = JOB_STALE_AFTER_MS, onUpdate }: WaitForJobOptions = {}
+): Promise<BulkJobStatus> {
+  let last: BulkJobStatus | null = null;
+  // attività più recente vista: quella dichiarata dal job, o l'inizio dell'attesa se non ha mai risposto
+  let activityAt = Date.now();
+  for (;;) {
+    signal?.throwIfAborted();
+    try {
+      const job = await fetchJobStatus(jobId, { baseUrl, signal });
+      onUpdate?.(job);
+      if (isJobFinished(job)) return job;
+      const lastActivity = jobLastActivity(job);
+      // primo stato: vale l'orario del server (job già fermo prima del reload); poi conta quando cambia
+      if (!last) activityAt = Math.min(activityAt, lastActivity || activityAt);
+      else if (lastActivity !== jobLastActivity(last)) activityAt = Date.now();
+      last = job;
+    } catch (e) {
+      if (e instanceof BulkJobNotFoundError || signal?.aborted) throw e;
+      console.warn(`Stato job ${jobId} non disponibile, nuovo tentativo`, e);
+    }
+    if (Date.now() - activityAt > staleAfterMs) throw new BulkJobStaleError(jobId, last, staleAfterMs);
+    await delay(intervalMs, signal);
+  }
+}
+
+/** Pausa tra due polling: il listener di abort viene rimosso allo scadere, non si accumula a ogni giro */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// ------------------------------------------
+// STREAM SSE (Accept: text/event-stream)
+// ------------------------------------------
+
+export type JobStreamEvent =
+  | { type: "job"; job: BulkJobStatus }
+  | { type: "item"; item: BulkJobItem }
+  | { type: "done"; status: BulkJobState; successCount?: number; errorCount?: number; error?: string; finishedAt: string };
+
+/** Applica un evento dello stream allo stato del job, ricalcolando i contatori */
+export function applyJobEvent(job: BulkJobStatus | null, event: JobStreamEvent): BulkJobStatus | null {
+  if (event.type === "job") return event.job;
+  if (!job) return null;
+
+  if (event.type === "done") {
+    return { ...job, status: event.status, error: event.error, finishedAt: event.finishedAt, updatedAt: event.finishedAt };
+  }
+
+  const items = job.items.map((item) => (item.position === event.item.position ? event.item : item));
+  const finished = items.filter(isItemFinished);
+  const successCount = finished.filter((item) => item.status === "active").length;
+  return {
+    ...job,
+    status: "running",
+    items,
+    completed: finished.length,
+    successCount,
+    errorCount: finished.length - successCount,
+    updatedAt: event.item.updatedAt,
+  };
+}
+
+function parseSseBlock(block: string): JobStreamEvent | null {
+  let event = "message";
+  const data: string[] = [];
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) event = line.slice(6).trim();
+    else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+  }
+  if (!data.length) return null; // commenti keepalive
+  const payload = JSON.parse(data.join("\n"));
+  if (event === "job") return { type: "job", job: payload };
+  if (event === "item") return { type: "item", item: payload };
+  if (event === "done") return { type: "done", ...payload };
+  return null;
+}
+
+export type JobStreamResult = {
+  /** ultimo stato ricostruito (null se lo stream si è chiuso prima dello snapshot) */
+  job: BulkJobStatus | null;
+  /** false se lo stream si è interrotto prima dell'evento done */
+  finished: boolean;
+};
+
+/** Legge lo stream SSE di gelato-bulk-create e notifica ogni cambio di stato */
+export async function readJobStream(response: Response, { onUpdate }: { onUpdate?: (job: BulkJobStatus) => void } = {}): Promise<JobStreamResult> {
+  if (!response.body) return { job: null, finished: false };
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let job: BulkJobStatus | null = null;
+
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf("\n\n")) >= 0) {
+        const event = parseSseBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (!event) continue;
+        job = applyJobEvent(job, event);
+        if (job) onUpdate?.(job);
+        if (event.type === "done") return { job, finished: true };
+      }
+    }
+  } catch (e) {
+    // annullamento esplicito: propaga; rete caduta: il chiamante ripiega sul polling
+    if (e instanceof DOMException && e.name === "AbortError") throw e;
+    console.warn("Stream del job interrotto", e);
+  } finally {
+    reader.releaseLock();
+  }
+  return { job, finished: false };
+}
@@ -0,0 +1,265 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildPlan,
+  buildProductPayload,
+  BulkRequestValidationError,
+  findRatioTagClashes,
+  getCleanBaseTitle,
+  getDerivativeFileName,
+  getExactFileName,
+  planGroupUploads,
+  planUploadOutputs,
+  resolveVariantFile,
+  runBulkPipeline,
+  uploadGroupUnit,
+  type GelatoTemplate,
+  type PipelineEvent,
+  type ProductGroup,
+  type ProductRulesType,
+} from "@/lib/bulk-pipeline";
+import { MAX_PRODUCTS_PER_REQUEST } from "@/lib/bulk-schemas";
+import { fileFingerprint } from "@/lib/upload-sessions";
+
+const rules: ProductRulesType = {
+  titleMode: "filename",
+  titleMaxWords: 10,
+  titleCustomText: "",
+  descriptionMode: "copy",
+  descriptionParagraphs: 1,
+  descriptionSentences: 1,
+  descriptionCustomHTML: "",
+  tagsMode: "copy",
+  tagsMaxCount: 5,
+  tagsCustom: [],
+  includeCustomTitle: false,
+  includeCustomDescription: false,
+};
+
+describe("nomi file", () => {
+  it("toglie il tag ratio dal titolo base", () => {
+    expect(getCleanBaseTitle("sunset (3x4).jpg")).toBe("Sunset");
+    expect(getCleanBaseTitle("Sunset ISO (5x7).png")).toBe("Sunset");
+  });
+
+  it("nomina originali e derivati", () => {
+    expect(getExactFileName("Sunset", "3x4")).toBe("Sunset (3x4).jpg");
+    expect(getDerivativeFileName("Sunset", "3x4", "stretch", { width: 3543, height: 4724 }, "image/jpeg")).toBe(
+      "Sunset (3x4) [stretch 3543x4724].jpg"
+    );
+    expect(getDerivativeFileName("Sunset", "1x1", "exact", { width: 10, height: 10 }, "image/png", 3)).toBe("Sunset [exact 10x10 +3mm].png");
+  });
+});
+
+describe("findRatioTagClashes", () => {
+  it("segnala i file dello stesso gruppo con la stessa ratio", () => {
+    const clashes = findRatioTagClashes([
+      { name: "Sunset (3x4).jpg" },
+      { name: "sunset (3x4).png" },
+      { name: "Sunset.jpg" },
+      { name: "Sea (3x4).jpg" },
+    ]);
+    expect(clashes).toEqual([{ baseTitle: "Sunset", ratioTag: "3x4", names: ["Sunset (3x4).jpg", "sunset (3x4).png"] }]);
+  });
+});
+
+describe("resolveVariantFile", () => {
+  it("ripiega su default e poi sul primo file", () => {
+    expect(resolveVariantFile("3x4", ["3x4", "default"])).toEqual({ ratioTag: "3x4", fallback: "none" });
+    expect(resolveVariantFile("2x3", ["3x4", "default"])).toEqual({ ratioTag: "default", fallback: "default" });
+    expect(resolveVariantFile("2x3", ["3x4"])).toEqual({ ratioTag: "3x4", fallback: "first-available" });
+    expect(resolveVariantFile("2x3", [])).toEqual({ ratioTag: null, fallback: "missing" });
+  });
+});
+
+describe("planGroupUploads", () => {
+  const file = { id: "a", name: "Sunset.jpg", file: new File([], "Sunset.jpg") };
+  const group: ProductGroup = { baseTitle: "Sunset", title: "Sunset", files: { default: file } };
+  const template: GelatoTemplate = {
+    id: "tpl",
+    variants: [
+      { id: "v1", title: "A", imagePlaceholders: [{ name: "front", width: 254, height: 254 }] },
+      { id: "v2", title: "B", imagePlaceholders: [{ name: "front", width: 254, height: 254 }] },
+      { id: "v3", title: "C" },
+    ],
+  };
+
+  it("senza elaborazione carica un originale per ratio", () => {
+    const plan = planGroupUploads(group, template);
+    expect(plan.units).toEqual([{ key: "default", ratioTag: "default" }]);
+    expect(plan.byVariant).toEqual({ v1: "default", v2: "default", v3: "default" });
+  });
+
+  it("con elaborazione le varianti con la stessa area condividono il derivato", () => {
+    const plan = planGroupUploads(group, template, undefined, { upscale: true, fitMode: "exact" });
+    expect(plan.units.map((u) => u.key)).toEqual(["default@exact:3000x3000", "default"]);
+    expect(plan.byVariant).toEqual({ v1: "default@exact:3000x3000", v2: "default@exact:3000x3000", v3: "default" });
+  });
+});
+
+describe("planUploadOutputs", () => {
+  const image = (id: string, name: string) => ({ id, name, file: new File([], name) });
+  const sized = { id: "v1", title: "A", imagePlaceholders: [{ name: "front", width: 254, height: 254 }] };
+
+  it("distingue i file convertiti in sRGB da quelli caricati invariati", () => {
+    const images = [image("a", "Sunset.jpg"), image("b", "Sea.jpg")];
+    const template: GelatoTemplate = { id: "tpl", variants: [sized, { id: "v2", title: "B" }] };
+    const outputs = planUploadOutputs(images, template, rules, undefined, { upscale: true, fitMode: "exact" });
+    expect([...outputs.converted]).toEqual(["a", "b"]);
+    expect([...outputs.original]).toEqual(["a", "b"]);
+  });
+
+  it("senza elaborazione carica solo originali", () => {
+    const outputs = planUploadOutputs([image("a", "Sunset.jpg")], { id: "tpl", variants: [sized] }, rules);
+    expect(outputs.converted.size).toBe(0);
+    expect([...outputs.original]).toEqual(["a"]);
+  });
+});
+
+describe("buildPlan", () => {
+  const images = [{ id: "a", name: "Sunset.jpg", file: new File([], "Sunset.jpg", { type: "image/jpeg" }) }];
+  const template: GelatoTemplate = {
+    id: "tpl",
+    variants: [
+      { id: "v1", title: "A", imagePlaceholders: [{ name: "front", width: 254, height: 254 }] },
+      { id: "v2", title: "B" },
+    ],
+  };
+
+  it("con elaborazione elenca i derivati che verranno caricati", () => {
+    const [product] = buildPlan(images, template, rules, undefined, { upscale: true, fitMode: "stretch" }).products;
+    expect(product.files.map((f) => f.uploadFileName)).toEqual(["Sunset [stretch 3000x3000].jpg", "Sunset.jpg"]);
+    expect(product.variants.map((v) => v.uploadFileName)).toEqual(["Sunset [stretch 3000x3000].jpg", "Sunset.jpg"]);
+  });
+
+  it("senza elaborazione elenca gli originali", () => {
+    const [product] = buildPlan(images, template, rules).products;
+    expect(product.files.map((f) => f.uploadFileName)).toEqual(["Sunset.jpg"]);
+    expect(product.variants.map((v) => v.uploadFileName)).toEqual(["Sunset.jpg", "Sunset.jpg"]);
+  });
+});
+
+describe("buildProductPayload", () => {
+  const group: ProductGroup = { baseTitle: "Sunset", title: "Sunset", files: { default: { id: "a", name: "Sunset.jpg", file: new File([], "Sunset.jpg") } } };
+  const template: GelatoTemplate = { id: "tpl", variants: [{ id: "v1", title: "A" }, { id: "v2", title: "B" }] };
+
+  it("assegna a ogni variante l'URL caricato", () => {
+    const payload = buildProductPayload(group, template, { default: "https://r2/sunset.jpg" }, rules);
+    expect(payload.variants.map((v) => v.imagePlaceholders[0].fileUrl)).toEqual(["https://r2/sunset.jpg", "https://r2/sunset.jpg"]);
+  });
+
+  it("si ferma se una variante non ha un file caricato", () => {
+    expect(() => buildProductPayload(group, template, { default: "https://r2/sunset.jpg" }, rules, undefined, { v1: "default", v2: "default@exact:10x10" })).toThrow(
+      'Nessun file caricato per la variante "B" di "Sunset"'
+    );
+  });
+});
+
+describe("uploadGroupUnit", () => {
+  const source = new File([new Uint8Array(10)], "Sunset.jpg", { type: "image/jpeg", lastModified: 1_700_000_000_000 });
+  const group: ProductGroup = { baseTitle: "Sunset", title: "Sunset", files: { default: { id: "a", name: "Sunset.jpg", file: source } } };
+  const unit = { key: "default@exact:100x100", ratioTag: "default", target: { width: 100, height: 100 } };
+
+  const run = async () => {
+    const uploaded: File[] = [];
+    const events: PipelineEvent[] = [];
+    await uploadGroupUnit(
+      group,
+      unit,
+      {
+        processImage: async () => ({ blob: new Blob([new Uint8Array(4)]), width: 100, height: 100, source: { width: 50, height: 50 }, dpi: 300, bleedPx: 0 }),
+        uploadFile: async (file, _name, options) => {
+          uploaded.push(file);
+          options?.onProgress?.({ loaded: 4, total: 4, parts: [] });
+          return "https://r2/x";
+        },
+      },
+      { upscale: true, fitMode: "exact" },
+      (event) => events.push(event)
+    );
+    return { file: uploaded[0], events };
+  };
+
+  it("il derivato ha un'impronta stabile tra un run e l'altro", async () => {
+    const first = await run();
+    const second = await run();
+    expect(first.file.lastModified).toBe(source.lastModified);
+    expect(fileFingerprint(first.file)).toBe(fileFingerprint(second.file));
+  });
+
+  it("il progresso è per unità, con la dimensione del derivato", async () => {
+    const { events } = await run();
+    expect(events.find((e) => e.type === "upload-progress")).toMatchObject({
+      uploadKey: "Sunset/default@exact:100x100",
+      imageId: "a",
+      progress: { total: 4 },
+    });
+  });
+});
+
+describe("runBulkPipeline", () => {
+  const image = (name: string) => ({ id: name, name, file: new File([], name) });
+
+  const run = async (names: string[]) => {
+    let uploads = 0;
+    const error = await runBulkPipeline(
+      {
+        templateId: "184d99bc-8fbb-40c2-a2f7-32adfc709e98",
+        connectionId: "4a1c8a8e-3a53-4c3e-9d5f-0d7b8c6e2f10",
+        images: names.map(image),
+        rules,
+        publish: false,
+      },
+      {
+        fetchTemplate: async (id) => ({ id, variants: [{ id: "v1", title: "A" }] }),
+        uploadFile: async () => {
+          uploads++;
+          return "https://r2/x";
+        },
+        submitProducts: async () => ({ results: [] }),
+      }
+    ).catch((e) => e);
+    return { error, uploads };
+  };
+
+  it("rifiuta troppi prodotti prima di caricare i file", async () => {
+    const { error, uploads } = await run(Array.from({ length: MAX_PRODUCTS_PER_REQUEST + 1 }, (_, i) => `Poster ${i}.jpg`));
+    expect(error).toBeInstanceOf(BulkRequestValidationError);
+    expect(error.fields[0].path).toBe("products");
+    expect(uploads).toBe(0);
+  });
+
+  it("al primo upload fallito annulla gli altri in volo", async () => {
+    let siblingCancelled = false;
+    const error = await runBulkPipeline(
+      {
+        templateId: "184d99bc-8fbb-40c2-a2f7-32adfc709e98",
+        connectionId: "4a1c8a8e-3a53-4c3e-9d5f-0d7b8c6e2f10",
+        images: [image("Sunset.jpg"), image("Sea.jpg")],
+        rules,
+        publish: false,
+        fileConcurrency: 2,
+      },
+      {
+        fetchTemplate: async (id) => ({ id, variants: [{ id: "v1", title: "A" }] }),
+        uploadFile: async (file, _name, options) => {
+          if (file.name === "Sunset.jpg") throw new Error("Fallito chunk 1/1: R2 down");
+          await new Promise((resolve) => options?.control?.signal.addEventListener("abort", resolve, { once: true }));
+          siblingCancelled = options?.control?.isCancelled ?? false;
+          options?.control?.throwIfCancelled();
+          return "https://r2/x";
+        },
+        submitProducts: async () => ({ results: [] }),
+      }
+    ).catch((e) => e);
+
+    expect(error.message).toBe("Fallito chunk 1/1: R2 down");
+    expect(siblingCancelled).toBe(true);
+  });
+
+  it("rifiuta titoli troppo lunghi prima di caricare i file", async () => {
+    const { error, uploads } = await run(["Ok.jpg", `${"x".repeat(300)}.jpg`]);
+    expect(error).toBeInstanceOf(BulkRequestValidationError);
+    expect(error.fields.map((f: { path: string }) => f.path)).toEqual(["products[1].title"]);
+    expect(uploads).toBe(0);
+  });
+});
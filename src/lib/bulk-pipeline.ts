@@ -0,0 +1,776 @@
+// ==========================================
+// PIPELINE DI CREAZIONE BULK (headless)
+// plan → upload → build payload → submit → reconcile
+// Nessuna dipendenza da React: la UI, una CLI o un test la pilotano
+// iniettando gli adapter di rete e ascoltando gli eventi di progresso.
+// ==========================================
+
+import type { BulkJobStatus } from "@/lib/bulk-jobs";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { sha256FileCached, sha256Text } from "@/lib/file-hash";
+import { apiErrorMessage, BulkCreateRequestSchema, PlannedBulkRequestSchema, validationError, type ApiFieldError } from "@/lib/bulk-schemas";
+import type { UploadProgress } from "@/lib/upload-engine";
+import { linkRunControl, RunCancelledError, type RunControl } from "@/lib/run-control";
+import { DEFAULT_RATIO_RULES, matchFileRatio, matchVariantRatio, resolveImageRatio, type RatioRule } from "@/lib/ratio-rules";
+import {
+  outputMimeType,
+  placeholderPixelSize,
+  type ImageProcessingOptions,
+  type PixelSize,
+  type ProcessImageRequest,
+  type ProcessImageResult,
+} from "@/lib/image-fit";
+import { DEFAULT_UPSCALER_ID } from "@/lib/upscaler";
+import { colorUploadMetadata, type ImageColorInfo } from "@/lib/color-profile";
+
+export type PipelineImage = ImageColorInfo & {
+  id: string;
+  file: File;
+  name: string;
+  /** dimensioni in pixel, usate per la ratio quando il nome file non ha indizi */
+  width?: number;
+  height?: number;
+};
+
+export type ProductRulesType = {
+  titleMode: "filename" | "ai-simple" | "ai-compound";
+  titleMaxWords: number;
+  titleCustomText: string;
+  descriptionMode: "copy" | "ai";
+  descriptionParagraphs: number;
+  descriptionSentences: number;
+  descriptionCustomHTML: string;
+  tagsMode: "copy" | "ai";
+  tagsMaxCount: number;
+  tagsCustom: string[];
+  includeCustomTitle: boolean;
+  includeCustomDescription: boolean;
+};
+
+export type GelatoImagePlaceholder = {
+  name: string;
+  /** area di stampa in mm */
+  width?: number;
+  height?: number;
+};
+
+export type GelatoTemplateVariant = {
+  id: string;
+  title: string;
+  imagePlaceholders?: GelatoImagePlaceholder[];
+};
+
+export type GelatoTemplate = {
+  id: string;
+  title?: string;
+  productType?: string;
+  variants?: GelatoTemplateVariant[];
+  imagePlaceholders?: GelatoImagePlaceholder[];
+};
+
+export type ProductVariantPayload = {
+  templateVariantId: string;
+  imagePlaceholders: Array<{ name: string; fileUrl: string }>;
+};
+
+export type ProductPayload = {
+  title: string;
+  description: string;
+  tags: string[];
+  variants: ProductVariantPayload[];
+  /** stessa chiave = stesso prodotto: il backend non lo ricrea se esiste già */
+  idempotencyKey?: string;
+};
+
+export type BulkCreateRequest = {
+  templateId: string;
+  /** false = bozza: prodotto non visibile e senza canali di vendita */
+  publish: boolean;
+  products: ProductPayload[];
+  /** store di destinazione, verificato dal backend; default lo store configurato lato server */
+  storeId?: string;
+  /** canali su cui pubblicare (solo con publish), tra quelli dello store; default ["web"] */
+  salesChannels?: string[];
+  /** connessione salvata in store_connections: il backend usa la sua chiave e il suo store */
+  connectionId?: string;
+};
+
+export type ProductResult = {
+  productId?: string;
+  status: string;
+  externalId?: string;
+  previewUrl?: string;
+  error?: string;
+  title: string;
+  /** tentativi di creazione lato Gelato: retry su 429 e, se il prodotto non risulta creato, su 5xx/errori di rete */
+  attempts?: number;
+  /** prodotto già creato in precedenza con la stessa chiave di idempotenza */
+  reused?: boolean;
+};
+
+export type ProductGroup = {
+  baseTitle: string;
+  title: string;
+  /** ratio tag → immagine sorgente */
+  files: Record<string, PipelineImage>;
+};
+
+export type UploadFileOptions = {
+  onProgress?: (progress: UploadProgress) => void;
+  control?: RunControl;
+  /** metadati salvati con l'oggetto caricato (profilo colore dell'originale) */
+  metadata?: Record<string, string>;
+};
+
+export type SubmitProductsOptions = {
+  signal?: AbortSignal;
+  /** stato del job di creazione a ogni polling */
+  onJobUpdate?: (job: BulkJobStatus) => void;
+};
+
+export type PipelineAdapters = {
+  fetchTemplate: (templateId: string, options?: { signal?: AbortSignal }) => Promise<GelatoTemplate>;
+  uploadFile: (file: File, exactFileName: string, options?: UploadFileOptions) => Promise<string>;
+  submitProducts: (request: BulkCreateRequest, options?: SubmitProductsOptions) => Promise<{ results: ProductResult[] }>;
+  /** adatta un'immagine all'area di stampa; senza, vengono caricati gli originali */
+  processImage?: (file: File, request: ProcessImageRequest, options?: { signal?: AbortSignal }) => Promise<ProcessImageResult>;
+};
+
+export type GroupRunStatus = "untouched" | "uploading" | "uploaded" | "submitting" | "submitted";
+
+/** Stato di ogni gruppo, per sapere cosa è stato fatto se la creazione viene annullata */
+export type GroupRunRecord = {
+  baseTitle: string;
+  title: string;
+  status: GroupRunStatus;
+  /** ratio tag dei file già su R2 */
+  uploadedFiles: string[];
+};
+
+export type PipelineSummary = {
+  results: ProductResult[];
+  successCount: number;
+  errorCount: number;
+  groups: GroupRunRecord[];
+};
+
+export class PipelineCancelledError extends RunCancelledError {
+  constructor(readonly groups: GroupRunRecord[]) {
+    super("Creazione annullata");
+    this.name = "PipelineCancelledError";
+  }
+}
+
+/** La richiesta costruita non passa lo schema condiviso con il backend: nulla è stato inviato a Gelato */
+export class BulkRequestValidationError extends Error {
+  constructor(readonly fields: ApiFieldError[], message: string) {
+    super(message);
+    this.name = "BulkRequestValidationError";
+  }
+}
+
+export type PipelineEvent =
+  | { type: "template-loaded"; template: GelatoTemplate }
+  | { type: "planned"; groups: ProductGroup[] }
+  /** unità da caricare; `bytes` è la dimensione dell'originale, stima finché il derivato non è pronto */
+  | { type: "uploads-planned"; units: { uploadKey: string; imageId: string; bytes: number }[] }
+  /** `uploadKey` distingue i derivati dello stesso originale; `progress.total` è la dimensione del file caricato */
+  | { type: "upload-progress"; uploadKey: string; imageId: string; group: string; ratioTag: string; progress: UploadProgress }
+  | {
+      type: "file-processed";
+      group: string;
+      ratioTag: string;
+      fileName: string;
+      width: number;
+      height: number;
+      source: PixelSize;
+      dpi: number;
+      upscaledWith?: string;
+    }
+  | { type: "file-uploaded"; group: string; ratioTag: string; fileName: string; url: string }
+  | { type: "group-built"; group: string; index: number; completed: number; total: number; product: ProductPayload }
+  | { type: "group-status"; group: string; status: GroupRunStatus }
+  | { type: "submitting"; count: number }
+  | { type: "job-progress"; job: BulkJobStatus }
+  | { type: "reconciled"; summary: PipelineSummary };
+
+export type PipelineInput = {
+  templateId: string;
+  images: PipelineImage[];
+  rules: ProductRulesType;
+  publish: boolean;
+  storeId?: string;
+  /** connessione salvata: il backend non ha più una chiave di ripiego */
+  connectionId: string;
+  salesChannels?: string[];
+  ratioRules?: RatioRule[];
+  /** fit mode/upscale: ogni variante riceve un derivato con le proporzioni della sua area di stampa */
+  processing?: ImageProcessingOptions;
+  /** file caricati in parallelo (su tutti i gruppi) */
+  fileConcurrency?: number;
+  /** pausa/ripresa/annullamento dall'esterno */
+  control?: RunControl;
+};
+
+export const DEFAULT_FILE_CONCURRENCY = 2;
+
+export type PipelineListener = (event: PipelineEvent) => void;
+
+export const isUuid = (s?: string) =>
+  !!s?.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i);
+
+export function getFileRatioTag(filename: string, ratioRules: RatioRule[] = DEFAULT_RATIO_RULES): string {
+  return matchFileRatio(filename, ratioRules);
+}
+
+export function getCleanBaseTitle(filename: string): string {
+  let base = filename.replace(/\.[^/.]+$/, "");
+  base = base.replace(/\s*(?:\bISO\b)?\s*\([^)]*\)/i, '').trim();
+  return base.charAt(0).toUpperCase() + base.slice(1);
+}
+
+export function getVariantRatioTag(variantTitle: string, ratioRules: RatioRule[] = DEFAULT_RATIO_RULES): string {
+  return matchVariantRatio(variantTitle, ratioRules);
+}
+
+/** Nome file con cui l'originale viene salvato su R2. */
+export function getExactFileName(baseTitle: string, ratioTag: string): string {
+  if (ratioTag === '3x4') return `${baseTitle} (3x4).jpg`;
+  if (ratioTag === '5x7') return `${baseTitle} ISO (5x7).jpg`;
+  if (ratioTag === 'default' || ratioTag === '1x1') return `${baseTitle}.jpg`;
+  return `${baseTitle} (${ratioTag}).jpg`;
+}
+
+/** Nome del derivato adattato a un'area di stampa: modo e dimensioni lo distinguono dall'originale */
+export function getDerivativeFileName(
+  baseTitle: string,
+  ratioTag: string,
+  fitMode: string,
+  target: PixelSize,
+  mimeType: string,
+  bleedMm = 0
+): string {
+  const base = getExactFileName(baseTitle, ratioTag).replace(/\.[^/.]+$/, "");
+  const bleed = bleedMm > 0 ? ` +${bleedMm}mm` : "";
+  return `${base} [${fitMode} ${target.width}x${target.height}${bleed}].${mimeType === "image/png" ? "png" : "jpg"}`;
+}
+
+export function buildProductTitle(baseTitle: string, index: number, rules: ProductRulesType): string {
+  let title: string;
+  if (rules.titleMode === "filename") title = baseTitle;
+  else if (rules.titleMode === "ai-simple") title = `AI Generated Title ${index + 1}`;
+  else title = `Custom Product ${index + 1}`;
+
+  if (rules.includeCustomTitle && rules.titleCustomText) {
+    title += ` ${rules.titleCustomText}`;
+  }
+  return title;
+}
+
+/** File con lo stesso titolo base e la stessa ratio: nel gruppo ne resta solo uno */
+export type RatioTagClash = { baseTitle: string; ratioTag: string; names: string[] };
+
+/** Collisioni che planGroups risolverebbe in silenzio tenendo l'ultimo file, da mostrare all'utente */
+export function findRatioTagClashes(
+  images: Pick<PipelineImage, "name" | "width" | "height">[],
+  ratioRules: RatioRule[] = DEFAULT_RATIO_RULES
+): RatioTagClash[] {
+  const slots = new Map<string, RatioTagClash>();
+  for (const img of images) {
+    const baseTitle = getCleanBaseTitle(img.name);
+    const ratioTag = resolveImageRatio(img, ratioRules).tag;
+    const key = `${baseTitle}\u0000${ratioTag}`;
+    const slot = slots.get(key) ?? { baseTitle, ratioTag, names: [] };
+    slot.names.push(img.name);
+    slots.set(key, slot);
+  }
+  return [...slots.values()].filter((slot) => slot.names.length > 1);
+}
+
+// 1. PLAN: raggruppamento smart per titolo base e ratio
+export function planGroups(
+  images: PipelineImage[],
+  rules: ProductRulesType,
+  ratioRules: RatioRule[] = DEFAULT_RATIO_RULES
+): ProductGroup[] {
+  const grouped: Record<string, Record<string, PipelineImage>> = {};
+  for (const img of images) {
+    const baseTitle = getCleanBaseTitle(img.name);
+    const ratioTag = resolveImageRatio(img, ratioRules).tag;
+    if (!grouped[baseTitle]) grouped[baseTitle] = {};
+    grouped[baseTitle][ratioTag] = img;
+  }
+
+  return Object.entries(grouped).map(([baseTitle, files], index) => ({
+    baseTitle,
+    title: buildProductTitle(baseTitle, index, rules),
+    files,
+  }));
+}
+
+/** File da caricare per un gruppo: un originale per ratio, oppure un derivato per area di stampa */
+export type UploadUnit = {
+  /** chiave in uploadedUrls: ratio tag, più modo e dimensioni per i derivati */
+  key: string;
+  ratioTag: string;
+  /** area di stampa in pixel; assente = originale così com'è */
+  target?: PixelSize;
+};
+
+/** Chiave univoca di un'unità nel run, per il progresso per file */
+export const uploadUnitKey = (group: ProductGroup, unit: Pick<UploadUnit, "key">) => `${group.baseTitle}/${unit.key}`;
+
+// 2. UPLOAD: carica un originale del gruppo e ritorna l'URL pubblico
+export async function uploadGroupFile(
+  group: ProductGroup,
+  ratioTag: string,
+  adapters: Pick<PipelineAdapters, "uploadFile">,
+  onEvent: PipelineListener = () => {},
+  control?: RunControl
+): Promise<string> {
+  const fileName = getExactFileName(group.baseTitle, ratioTag);
+  const image = group.files[ratioTag];
+  const url = await adapters.uploadFile(image.file, fileName, {
+    control,
+    metadata: colorUploadMetadata(image, false),
+    onProgress: (progress) =>
+      onEvent({
+        type: "upload-progress",
+        uploadKey: uploadUnitKey(group, { key: ratioTag }),
+        imageId: image.id,
+        group: group.baseTitle,
+        ratioTag,
+        progress,
+      }),
+  });
+  onEvent({ type: "file-uploaded", group: group.baseTitle, ratioTag, fileName, url });
+  return url;
+}
+
+/** Nome su R2 di un'unità: quello dell'originale, oppure del derivato con modo, dimensioni e abbondanza */
+export function getUnitFileName(group: ProductGroup, unit: UploadUnit, processing?: ImageProcessingOptions): string {
+  if (!unit.target || !processing) return getExactFileName(group.baseTitle, unit.ratioTag);
+  const type = outputMimeType(group.files[unit.ratioTag].file.type);
+  return getDerivativeFileName(group.baseTitle, unit.ratioTag, processing.fitMode, unit.target, type, processing.bleed?.bleedMm);
+}
+
+/** Carica un'unità: l'originale, oppure il derivato adattato all'area di stampa */
+export async function uploadGroupUnit(
+  group: ProductGroup,
+  unit: UploadUnit,
+  adapters: Pick<PipelineAdapters, "uploadFile" | "processImage">,
+  processing: ImageProcessingOptions | undefined,
+  onEvent: PipelineListener = () => {},
+  control?: RunControl
+): Promise<string> {
+  if (!unit.target || !processing || !adapters.processImage) return uploadGroupFile(group, unit.ratioTag, adapters, onEvent, control);
+
+  const image = group.files[unit.ratioTag];
+  const result = await adapters.processImage(
+    image.file,
+    {
+      target: unit.target,
+      fitMode: processing.fitMode,
+      allowUpscale: processing.upscale,
+      upscaler: processing.upscaler,
+      bleed: processing.bleed?.bleedMm
+        ? { mm: processing.bleed.bleedMm, fill: processing.bleed.fill, color: processing.bleed.color }
+        : undefined,
+    },
+    { signal: control?.signal }
+  );
+  const type = outputMimeType(image.file.type);
+  const fileName = getUnitFileName(group, unit, processing);
+  onEvent({
+    type: "file-processed",
+    group: group.baseTitle,
+    ratioTag: unit.ratioTag,
+    fileName,
+    width: result.width,
+    height: result.height,
+    source: result.source,
+    dpi: result.dpi,
+    upscaledWith: result.upscaledWith,
+  });
+
+  await control?.checkpoint();
+  // stesso lastModified dell'originale: l'impronta della sessione non cambia a ogni run e l'upload si riprende
+  const file = new File([result.blob], fileName, { type, lastModified: image.file.lastModified });
+  const url = await adapters.uploadFile(file, fileName, {
+    control,
+    metadata: colorUploadMetadata(image, true),
+    onProgress: (progress) =>
+      onEvent({
+        type: "upload-progress",
+        uploadKey: uploadUnitKey(group, unit),
+        imageId: image.id,
+        group: group.baseTitle,
+        ratioTag: unit.ratioTag,
+        progress,
+      }),
+  });
+  onEvent({ type: "file-uploaded", group: group.baseTitle, ratioTag: unit.ratioTag, fileName, url });
+  return url;
+}
+
+export type VariantFallback = "none" | "default" | "first-available" | "missing";
+
+/**
+ * Sceglie quale file caricato (per ratio tag) riceve una variante.
+ * `fallback` dice se la scelta è esatta o un ripiego silenzioso.
+ */
+export function resolveVariantFile(
+  variantRatio: string,
+  availableTags: string[]
+): { ratioTag: string | null; fallback: VariantFallback } {
+  if (availableTags.includes(variantRatio)) {
+    return { ratioTag: variantRatio, fallback: variantRatio === 'default' ? "default" : "none" };
+  }
+  if (availableTags.includes('default')) return { ratioTag: 'default', fallback: "default" };
+  if (availableTags.length) return { ratioTag: availableTags[0], fallback: "first-available" };
+  return { ratioTag: null, fallback: "missing" };
+}
+
+export function getPlaceholder(variant: GelatoTemplateVariant, template: GelatoTemplate): GelatoImagePlaceholder | undefined {
+  return variant?.imagePlaceholders?.[0] || template?.imagePlaceholders?.[0];
+}
+
+function getPlaceholderName(variant: GelatoTemplateVariant, template: GelatoTemplate): string {
+  return getPlaceholder(variant, template)?.name || "front";
+}
+
+/**
+ * Unità da caricare per un gruppo e quale unità riceve ogni variante.
+ * Senza elaborazione: un originale per ratio, come sempre. Con elaborazione: un derivato per
+ * coppia ratio/area di stampa (varianti con la stessa area condividono il file).
+ */
+export function planGroupUploads(
+  group: ProductGroup,
+  template: GelatoTemplate,
+  ratioRules: RatioRule[] = DEFAULT_RATIO_RULES,
+  processing?: ImageProcessingOptions
+): { units: UploadUnit[]; byVariant: Record<string, string> } {
+  const availableTags = Object.keys(group.files);
+  if (!processing) {
+    const byVariant: Record<string, string> = {};
+    for (const v of template.variants ?? []) {
+      const { ratioTag } = resolveVariantFile(getVariantRatioTag(v.title, ratioRules), availableTags);
+      if (ratioTag) byVariant[v.id] = ratioTag;
+    }
+    return { units: availableTags.map((ratioTag) => ({ key: ratioTag, ratioTag })), byVariant };
+  }
+
+  const units = new Map<string, UploadUnit>();
+  const byVariant: Record<string, string> = {};
+  for (const v of template.variants ?? []) {
+    const { ratioTag } = resolveVariantFile(getVariantRatioTag(v.title, ratioRules), availableTags);
+    if (!ratioTag) continue;
+    // area senza dimensioni nel template: si carica l'originale
+    const target = placeholderPixelSize(getPlaceholder(v, template)) ?? undefined;
+    const key = target ? `${ratioTag}@${processing.fitMode}:${target.width}x${target.height}` : ratioTag;
+    if (!units.has(key)) units.set(key, { key, ratioTag, target });
+    byVariant[v.id] = key;
+  }
+  return { units: [...units.values()], byVariant };
+}
+
+/**
+ * Immagini caricate come derivato (reso in sRGB a 8 bit) e come originale invariato, secondo il
+ * piano di upload. Un'immagine può stare in entrambi se solo alcune aree hanno dimensioni.
+ */
+export function planUploadOutputs(
+  images: PipelineImage[],
+  template: GelatoTemplate,
+  rules: ProductRulesType,
+  ratioRules: RatioRule[] = DEFAULT_RATIO_RULES,
+  processing?: ImageProcessingOptions
+): { converted: Set<string>; original: Set<string> } {
+  const converted = new Set<string>();
+  const original = new Set<string>();
+  for (const group of planGroups(images, rules, ratioRules)) {
+    for (const unit of planGroupUploads(group, template, ratioRules, processing).units) {
+      (unit.target ? converted : original).add(group.files[unit.ratioTag].id);
+    }
+  }
+  return { converted, original };
+}
+
+function buildDescription(rules: ProductRulesType): string {
+  return rules.descriptionCustomHTML || "Generated by Gelato Bulk Creator";
+}
+
+function buildTags(rules: ProductRulesType): string[] {
+  return rules.tagsCustom.length > 0 ? rules.tagsCustom : ["gelato", "bulk-created"];
+}
+
+// 3. BUILD: associa ad ogni variante del template il file con la ratio giusta
+// (o, con `byVariant` da planGroupUploads, il derivato della sua area di stampa)
+export function buildProductPayload(
+  group: ProductGroup,
+  template: GelatoTemplate,
+  uploadedUrls: Record<string, string>,
+  rules: ProductRulesType,
+  ratioRules: RatioRule[] = DEFAULT_RATIO_RULES,
+  byVariant?: Record<string, string>
+): ProductPayload {
+  const availableTags = Object.keys(uploadedUrls);
+  const variants: ProductVariantPayload[] = (template.variants ?? []).map((v) => {
+    const key = byVariant ? byVariant[v.id] : resolveVariantFile(getVariantRatioTag(v.title, ratioRules), availableTags).ratioTag;
+    const fileUrl = key ? uploadedUrls[key] : undefined;
+    // una variante senza immagine verrebbe inviata a Gelato con fileUrl vuoto: meglio fermarsi qui
+    if (!fileUrl) throw new Error(`Nessun file caricato per la variante "${v.title}" di "${group.title}"`);
+    return {
+      templateVariantId: v.id,
+      imagePlaceholders: [{ name: getPlaceholderName(v, template), fileUrl }],
+    };
+  });
+
+  return {
+    title: group.title,
+    description: buildDescription(rules),
+    tags: buildTags(rules),
+    variants,
+  };
+}
+
+/**
+ * Chiave di idempotenza: stesso template, stesso titolo base e stessi file danno la stessa chiave.
+ * Con l'elaborazione attiva entrano anche fit mode, upscale e abbondanza, che cambiano i file inviati.
+ */
+export async function productIdempotencyKey(
+  templateId: string,
+  group: ProductGroup,
+  signal?: AbortSignal,
+  processing?: ImageProcessingOptions
+): Promise<string> {
+  const files = await Promise.all(
+    Object.entries(group.files)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(async ([ratioTag, img]) => `${ratioTag}:${await sha256FileCached(img.file, signal)}`)
+  );
+  const parts = [templateId, group.baseTitle, ...files];
+  if (processing) {
+    parts.push(`fit:${processing.fitMode}:${processing.upscale ? `upscale-${processing.upscaler ?? DEFAULT_UPSCALER_ID}` : "native"}`);
+    const { bleed } = processing;
+    if (bleed?.bleedMm) parts.push(`bleed:${bleed.bleedMm}:${bleed.fill}${bleed.fill === "solid" ? `:${bleed.color}` : ""}`);
+  }
+  return sha256Text(parts.join("\n"));
+}
+
+// ==========================================
+// DRY-RUN: piano completo senza upload né chiamate a Gelato
+// ==========================================
+
+/** File che verrà caricato: un originale, oppure un derivato per area di stampa */
+export type PlannedFile = {
+  /** chiave dell'unità di upload, come in planGroupUploads */
+  key: string;
+  ratioTag: string;
+  sourceName: string;
+  uploadFileName: string;
+  /** area di stampa in pixel del derivato; assente = originale */
+  target?: PixelSize;
+};
+
+export type PlannedVariant = {
+  templateVariantId: string;
+  variantTitle: string;
+  variantRatio: string;
+  placeholderName: string;
+  assignedRatio: string | null;
+  sourceName: string | null;
+  /** file caricato che riceve la variante (originale o derivato), null se manca */
+  uploadFileName: string | null;
+  fallback: VariantFallback;
+};
+
+export type PlannedProduct = {
+  baseTitle: string;
+  title: string;
+  description: string;
+  tags: string[];
+  files: PlannedFile[];
+  variants: PlannedVariant[];
+};
+
+export type BulkPlan = {
+  templateId: string;
+  templateTitle?: string;
+  generatedAt: string;
+  products: PlannedProduct[];
+  /** numero di varianti che ricevono un'immagine di ripiego o nessuna */
+  fallbackCount: number;
+};
+
+export function buildPlan(
+  images: PipelineImage[],
+  template: GelatoTemplate,
+  rules: ProductRulesType,
+  ratioRules: RatioRule[] = DEFAULT_RATIO_RULES,
+  processing?: ImageProcessingOptions
+): BulkPlan {
+  const products = planGroups(images, rules, ratioRules).map((group): PlannedProduct => {
+    const availableTags = Object.keys(group.files);
+    // stesso piano di upload di runBulkPipeline: con l'elaborazione i file sono i derivati
+    const uploads = planGroupUploads(group, template, ratioRules, processing);
+    const files = uploads.units.map(
+      (unit): PlannedFile => ({
+        key: unit.key,
+        ratioTag: unit.ratioTag,
+        sourceName: group.files[unit.ratioTag].name,
+        uploadFileName: getUnitFileName(group, unit, processing),
+        target: unit.target,
+      })
+    );
+    return {
+      baseTitle: group.baseTitle,
+      title: group.title,
+      description: buildDescription(rules),
+      tags: buildTags(rules),
+      files,
+      variants: (template.variants ?? []).map((v) => {
+        const variantRatio = getVariantRatioTag(v.title, ratioRules);
+        const { ratioTag, fallback } = resolveVariantFile(variantRatio, availableTags);
+        const key = uploads.byVariant[v.id];
+        return {
+          templateVariantId: v.id,
+          variantTitle: v.title,
+          variantRatio,
+          placeholderName: getPlaceholderName(v, template),
+          assignedRatio: ratioTag,
+          sourceName: ratioTag ? group.files[ratioTag].name : null,
+          uploadFileName: files.find((f) => f.key === key)?.uploadFileName ?? null,
+          fallback,
+        };
+      }),
+    };
+  });
+
+  return {
+    templateId: template.id,
+    templateTitle: template.title,
+    generatedAt: new Date().toISOString(),
+    products,
+    fallbackCount: products.reduce((n, p) => n + p.variants.filter((v) => v.fallback !== "none").length, 0),
+  };
+}
+
+// 5. RECONCILE: riepilogo dei risultati restituiti da gelato-bulk-create
+export function reconcileResults(results: ProductResult[], groups: GroupRunRecord[] = []): PipelineSummary {
+  return {
+    results,
+    groups,
+    successCount: results.filter((r) => r.status === "active" || r.status === "created_in_background").length,
+    errorCount: results.filter((r) => r.status === "error").length,
+  };
+}
+
+/** Valida la richiesta con lo schema condiviso con il backend; errore con i campi non validi */
+function assertValidRequest(schema: typeof BulkCreateRequestSchema | typeof PlannedBulkRequestSchema, request: unknown) {
+  const validation = schema.safeParse(request);
+  if (!validation.success) {
+    const error = validationError(validation.error, "Richiesta non valida");
+    throw new BulkRequestValidationError(error.fields ?? [], apiErrorMessage({ error }));
+  }
+}
+
+export async function runBulkPipeline(
+  input: PipelineInput,
+  adapters: PipelineAdapters,
+  onEvent: PipelineListener = () => {}
+): Promise<PipelineSummary> {
+  if (!isUuid(input.templateId)) throw new Error("Template ID mancante o non valido");
+  const { control } = input;
+
+  let records: GroupRunRecord[] = [];
+  const setStatus = (index: number, status: GroupRunStatus) => {
+    records[index].status = status;
+    onEvent({ type: "group-status", group: records[index].baseTitle, status });
+  };
+  const snapshot = () => records.map((r) => ({ ...r, uploadedFiles: [...r.uploadedFiles] }));
+
+  try {
+    const template = await adapters.fetchTemplate(input.templateId, { signal: control?.signal });
+    if (!template?.variants?.length) {
+      throw new Error("Nessuna variante trovata in questo template.");
+    }
+    onEvent({ type: "template-loaded", template });
+
+    const groups = planGroups(input.images, input.rules, input.ratioRules);
+    onEvent({ type: "planned", groups });
+
+    // Numero di prodotti e titoli si conoscono già: se il backend li rifiuterebbe, non si carica nulla
+    const base = {
+      templateId: template.id,
+      publish: input.publish,
+      storeId: input.storeId,
+      salesChannels: input.salesChannels,
+      connectionId: input.connectionId,
+    };
+    assertValidRequest(PlannedBulkRequestSchema, {
+      ...base,
+      products: groups.map((g) => ({ title: g.title, description: buildDescription(input.rules), tags: buildTags(input.rules) })),
+    });
+
+    records = groups.map((g) => ({
+      baseTitle: g.baseTitle,
+      title: g.title,
+      status: "untouched",
+      uploadedFiles: [],
+    }));
+
+    // Upload di tutti i file con concorrenza limitata; un gruppo diventa
+    // payload appena tutti i suoi file sono su R2.
+    const processing = adapters.processImage ? input.processing : undefined;
+    const uploadPlans = groups.map((group) => planGroupUploads(group, template, input.ratioRules, processing));
+    const jobs = groups.flatMap((group, index) => uploadPlans[index].units.map((unit) => ({ group, index, unit })));
+    onEvent({
+      type: "uploads-planned",
+      units: jobs.map(({ group, unit }) => {
+        const image = group.files[unit.ratioTag];
+        return { uploadKey: uploadUnitKey(group, unit), imageId: image.id, bytes: image.file.size };
+      }),
+    });
+    const uploadedUrls = groups.map((): Record<string, string> => ({}));
+    const pending = uploadPlans.map((plan) => plan.units.length);
+    const products = new Array<ProductPayload>(groups.length);
+    let completed = 0;
+
+    // Al primo file fallito gli upload in volo vengono annullati (e abortiti sul Worker): il run si ferma comunque
+    await mapWithConcurrency(jobs, input.fileConcurrency ?? DEFAULT_FILE_CONCURRENCY, async ({ group, index, unit }, _job, siblingFailed) => {
+      const uploadControl = linkRunControl(control, siblingFailed);
+      await uploadControl.checkpoint();
+      if (records[index].status === "untouched") setStatus(index, "uploading");
+      uploadedUrls[index][unit.key] = await uploadGroupUnit(group, unit, adapters, processing, onEvent, uploadControl);
+      if (!records[index].uploadedFiles.includes(unit.ratioTag)) records[index].uploadedFiles.push(unit.ratioTag);
+      if (--pending[index] > 0) return;
+
+      const product = buildProductPayload(group, template, uploadedUrls[index], input.rules, input.ratioRules, uploadPlans[index].byVariant);
+      product.idempotencyKey = await productIdempotencyKey(template.id, group, uploadControl.signal, processing);
+      products[index] = product;
+      completed++;
+      setStatus(index, "uploaded");
+      onEvent({ type: "group-built", group: group.baseTitle, index, completed, total: groups.length, product });
+    });
+
+    // 4. SUBMIT: creazione prodotti in Gelato, dopo la stessa validazione del backend
+    await control?.checkpoint();
+    const request: BulkCreateRequest = { ...base, products };
+    assertValidRequest(BulkCreateRequestSchema, request);
+
+    records.forEach((_, index) => setStatus(index, "submitting"));
+    onEvent({ type: "submitting", count: products.length });
+    const { results = [] } = await adapters.submitProducts(
+      request,
+      { signal: control?.signal, onJobUpdate: (job) => onEvent({ type: "job-progress", job }) }
+    );
+    records.forEach((_, index) => setStatus(index, "submitted"));
+
+    const summary = reconcileResults(results, snapshot());
+    onEvent({ type: "reconciled", summary });
+    return summary;
+  } catch (e) {
+    if (e instanceof RunCancelledError || control?.isCancelled) throw new PipelineCancelledError(snapshot());
+    throw e;
+  }
+}
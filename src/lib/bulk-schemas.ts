@@ -0,0 +1,2 @@
+// Gli stessi schemi zod usati dalle edge function: il client valida la richiesta prima dell'invio
+export * from "../../supabase/functions/_shared/bulk-schemas";
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { colorIssues, colorUploadMetadata, isSrgbProfile, parseIccProfile } from "@/lib/color-profile";
+
+/** Profilo ICC v2 minimo: header + tag desc */
+function iccV2(colorSpace: string, name: string): Uint8Array {
+  const text = `${name}\0`;
+  const bytes = new Uint8Array(156 + text.length);
+  const view = new DataView(bytes.buffer);
+  const put = (s: string, at: number) => bytes.set([...s].map((c) => c.charCodeAt(0)), at);
+  bytes[8] = 2;
+  put(colorSpace.padEnd(4), 16);
+  put("acsp", 36);
+  view.setUint32(128, 1);
+  put("desc", 132);
+  view.setUint32(136, 144);
+  view.setUint32(140, 12 + text.length);
+  put("desc", 144);
+  view.setUint32(152, text.length);
+  put(text, 156);
+  return bytes;
+}
+
+describe("parseIccProfile", () => {
+  it("legge spazio colore e descrizione", () => {
+    expect(parseIccProfile(iccV2("RGB", "Adobe RGB (1998)"))).toEqual({ colorSpace: "RGB", name: "Adobe RGB (1998)", version: 2 });
+    expect(parseIccProfile(iccV2("CMYK", "U.S. Web Coated (SWOP) v2"))?.colorSpace).toBe("CMYK");
+  });
+
+  it("ignora dati che non sono un profilo", () => {
+    expect(parseIccProfile(new Uint8Array(200))).toBeNull();
+  });
+});
+
+describe("colorIssues", () => {
+  it.each([
+    [{ colorSpace: "RGB", bitDepth: 8 }, []],
+    [{ colorSpace: "CMYK", bitDepth: 8 }, ["warn"]],
+    [{ colorSpace: "RGB", bitDepth: 16 }, ["warn"]],
+    [{ colorSpace: "RGB", bitDepth: 12 }, ["error"]],
+  ])("%o", (info, levels) => {
+    expect(colorIssues(info).map((i) => i.level)).toEqual(levels);
+  });
+});
+
+describe("isSrgbProfile / colorUploadMetadata", () => {
+  it("senza profilo si assume sRGB", () => {
+    expect(isSrgbProfile({})).toBe(true);
+    expect(isSrgbProfile({ iccProfile: "Display P3" })).toBe(false);
+  });
+
+  it("registra il profilo dell'originale", () => {
+    expect(colorUploadMetadata({ colorSpace: "RGB", iccProfile: "Display P3", bitDepth: 8 }, true)).toEqual({
+      "color-output": "sRGB",
+      "source-color-space": "RGB",
+      "source-icc-profile": "Display P3",
+      "source-bit-depth": "8",
+    });
+  });
+});
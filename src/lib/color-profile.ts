@@ -0,0 +1,91 @@
+// ==========================================
+// PROFILI COLORE (ICC)
+// Lettura dell'header ICC incorporato (spazio colore + descrizione del profilo) e
+// valutazione di cosa succede in preparazione: i derivati vengono resi su canvas sRGB,
+// quindi Adobe RGB / Display P3 vengono convertiti; CMYK e profondità insolite vanno segnalati.
+// ==========================================
+
+export type IccProfileInfo = {
+  /** firma dello spazio colore dei dati: "RGB", "CMYK", "GRAY", "Lab"... */
+  colorSpace: string;
+  /** descrizione del profilo (tag desc), es. "Adobe RGB (1998)" */
+  name?: string;
+  version: number;
+};
+
+/** Colore dichiarato da un file, come letto da readImageMetadata */
+export type ImageColorInfo = {
+  colorSpace?: string;
+  iccProfile?: string;
+  bitDepth?: number;
+};
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+function readDescription(bytes: Uint8Array, view: DataView, offset: number, size: number): string | undefined {
+  if (offset + 12 > bytes.length) return undefined;
+  const type = ascii(bytes, offset, 4);
+
+  if (type === "desc") {
+    // ICC v2: lunghezza ASCII (terminatore incluso) e testo
+    const length = view.getUint32(offset + 8);
+    const text = ascii(bytes, offset + 12, Math.min(length, size - 12, bytes.length - offset - 12));
+    return text.replace(/\0+$/, "").trim() || undefined;
+  }
+
+  if (type === "mluc" && offset + 28 <= bytes.length) {
+    // ICC v4: prima traduzione, UTF-16BE
+    const length = view.getUint32(offset + 20);
+    const start = offset + view.getUint32(offset + 24);
+    let text = "";
+    for (let i = 0; i + 1 < length && start + i + 1 < bytes.length; i += 2) text += String.fromCharCode(view.getUint16(start + i));
+    return text.replace(/\0+$/, "").trim() || undefined;
+  }
+  return undefined;
+}
+
+export function parseIccProfile(bytes: Uint8Array): IccProfileInfo | null {
+  if (bytes.length < 132 || ascii(bytes, 36, 4) !== "acsp") return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const info: IccProfileInfo = { colorSpace: ascii(bytes, 16, 4).trim(), version: bytes[8] };
+
+  const count = view.getUint32(128);
+  for (let i = 0; i < count && 132 + i * 12 + 12 <= bytes.length; i++) {
+    const entry = 132 + i * 12;
+    if (ascii(bytes, entry, 4) !== "desc") continue;
+    info.name = readDescription(bytes, view, view.getUint32(entry + 4), view.getUint32(entry + 8));
+    break;
+  }
+  return info;
+}
+
+export const isSrgbProfile = (info: ImageColorInfo) => !info.iccProfile || /srgb/i.test(info.iccProfile);
+
+export type ColorIssue = { level: "warn" | "error"; message: string };
+
+/** Problemi di colore da mostrare prima della creazione; "error" = il file non si può preparare */
+export function colorIssues(info: ImageColorInfo): ColorIssue[] {
+  const issues: ColorIssue[] = [];
+  if (info.colorSpace === "CMYK") {
+    issues.push({ level: "warn", message: "CMYK file: the browser converts it to sRGB and colours may shift. Export it as RGB." });
+  }
+  if (info.bitDepth && info.bitDepth > 8 && info.bitDepth !== 16) {
+    issues.push({ level: "error", message: `${info.bitDepth}-bit images cannot be decoded by the browser` });
+  } else if (info.bitDepth === 16) {
+    issues.push({ level: "warn", message: "16-bit image: it will be reduced to 8 bits per channel" });
+  }
+  return issues;
+}
+
+/**
+ * Metadati dell'originale registrati con il file caricato.
+ * `converted` = il file caricato è un derivato reso in sRGB, non l'originale.
+ */
+export function colorUploadMetadata(info: ImageColorInfo, converted: boolean): Record<string, string> {
+  const metadata: Record<string, string> = { "color-output": converted ? "sRGB" : "original" };
+  if (info.colorSpace) metadata["source-color-space"] = info.colorSpace;
+  if (info.iccProfile) metadata["source-icc-profile"] = info.iccProfile;
+  if (info.bitDepth) metadata["source-bit-depth"] = String(info.bitDepth);
+  return metadata;
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { mapWithConcurrency } from "@/lib/concurrency";
+
+const tick = (ms = 1) => new Promise((r) => setTimeout(r, ms));
+
+describe("mapWithConcurrency", () => {
+  it("rispetta il limite e l'ordine dei risultati", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const results = await mapWithConcurrency([5, 1, 3, 2], 2, async (n) => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await tick(n);
+      inFlight--;
+      return n * 10;
+    });
+    expect(results).toEqual([50, 10, 30, 20]);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it("al primo errore annulla i job in volo, non ne avvia altri e rifiuta con quell'errore", async () => {
+    const started: number[] = [];
+    let siblingAborted = false;
+    const run = mapWithConcurrency([0, 1, 2, 3], 2, async (n, _index, signal) => {
+      started.push(n);
+      if (n === 0) {
+        await tick();
+        throw new Error("upload fallito");
+      }
+      await new Promise<void>((resolve) => signal.addEventListener("abort", () => resolve(), { once: true }));
+      siblingAborted = true;
+      throw new Error("annullato");
+    });
+
+    await expect(run).rejects.toThrow("upload fallito");
+    expect(siblingAborted).toBe(true);
+    expect(started).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,33 @@
+// Esegue `worker` su tutti gli elementi con al massimo `limit` promesse in volo.
+// I risultati mantengono l'ordine degli input. Al primo errore non parte nessun nuovo job,
+// il segnale passato ai worker viene annullato (così quelli in volo si fermano) e,
+// quando tutti sono terminati, la promessa viene rifiutata con quel primo errore.
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number, signal: AbortSignal) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  const size = Math.max(1, Math.min(Math.floor(limit) || 1, items.length));
+  const siblings = new AbortController();
+  let failure: { error: unknown } | undefined;
+  let next = 0;
+
+  const lanes = Array.from({ length: size }, async () => {
+    while (!failure && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await worker(items[index], index, siblings.signal);
+      } catch (error) {
+        if (!failure) {
+          failure = { error };
+          siblings.abort();
+        }
+      }
+    }
+  });
+
+  await Promise.all(lanes);
+  if (failure) throw failure.error;
+  return results;
+}
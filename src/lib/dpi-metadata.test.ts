@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { writeDpi } from "@/lib/dpi-metadata";
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+describe("writeDpi", () => {
+  it("inserisce un APP0 JFIF nel JPEG che non lo ha", async () => {
+    const out = await bytesOf(await writeDpi(new Blob([new Uint8Array([0xff, 0xd8, 0xff, 0xd9])], { type: "image/jpeg" }), 300));
+    const view = new DataView(out.buffer);
+    expect(view.getUint16(2)).toBe(0xffe0);
+    expect(out[13]).toBe(1);
+    expect(view.getUint16(14)).toBe(300);
+    expect(view.getUint16(out.length - 2)).toBe(0xffd9);
+  });
+
+  it("scrive pHYs dopo IHDR nel PNG", async () => {
+    const png = new Uint8Array(33 + 12);
+    const view = new DataView(png.buffer);
+    view.setUint32(0, 0x89504e47);
+    view.setUint32(8, 13);
+    view.setUint32(12, 0x49484452); // IHDR
+    view.setUint32(33 + 4, 0x49454e44); // IEND
+    const out = await bytesOf(await writeDpi(new Blob([png], { type: "image/png" }), 300));
+    const outView = new DataView(out.buffer);
+    expect(outView.getUint32(37)).toBe(0x70485973);
+    expect(outView.getUint32(41)).toBe(11811);
+    expect(out[49]).toBe(1);
+    expect(out.length).toBe(png.length + 21);
+  });
+
+  it("lascia invariati gli altri formati", async () => {
+    const webp = new Blob([new Uint8Array([1, 2, 3])], { type: "image/webp" });
+    expect(await writeDpi(webp, 300)).toBe(webp);
+  });
+});
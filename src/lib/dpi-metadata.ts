@@ -0,0 +1,98 @@
+// ==========================================
+// SCRITTURA DPI NEI FILE (JPEG/PNG)
+// I canvas esportano a 72/96 DPI o senza densità: Gelato e i software di stampa leggono
+// la densità dall'header, quindi il derivato la dichiara esplicitamente.
+// JPEG: segmento APP0 JFIF (aggiornato o inserito dopo SOI). PNG: chunk pHYs dopo IHDR.
+// ==========================================
+
+const JFIF_ID = [0x4a, 0x46, 0x49, 0x46, 0x00]; // "JFIF\0"
+
+function setJpegDpi(bytes: Uint8Array, dpi: number): Uint8Array {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return bytes;
+  const density = Math.min(0xffff, Math.max(1, Math.round(dpi)));
+
+  const hasJfif = bytes[2] === 0xff && bytes[3] === 0xe0 && JFIF_ID.every((b, i) => bytes[6 + i] === b);
+  if (hasJfif) {
+    const out = bytes.slice();
+    const view = new DataView(out.buffer);
+    out[13] = 1; // unità: punti per pollice
+    view.setUint16(14, density);
+    view.setUint16(16, density);
+    return out;
+  }
+
+  const app0 = new Uint8Array(18);
+  const view = new DataView(app0.buffer);
+  view.setUint16(0, 0xffe0);
+  view.setUint16(2, 16);
+  app0.set(JFIF_ID, 4);
+  app0[9] = 1; // versione 1.01
+  app0[10] = 1;
+  app0[11] = 1;
+  view.setUint16(12, density);
+  view.setUint16(14, density);
+
+  const out = new Uint8Array(bytes.length + app0.length);
+  out.set(bytes.subarray(0, 2));
+  out.set(app0, 2);
+  out.set(bytes.subarray(2), 2 + app0.length);
+  return out;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function setPngDpi(bytes: Uint8Array, dpi: number): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 33 || view.getUint32(0) !== 0x89504e47) return bytes;
+
+  // pHYs: pixel per metro su X e Y, unità 1 = metro
+  const ppm = Math.round(dpi / 0.0254);
+  const chunk = new Uint8Array(21);
+  const chunkView = new DataView(chunk.buffer);
+  chunkView.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // "pHYs"
+  chunkView.setUint32(8, ppm);
+  chunkView.setUint32(12, ppm);
+  chunk[16] = 1;
+  chunkView.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  // si ricostruisce il file: IHDR, il nuovo pHYs, poi tutti gli altri chunk tranne un pHYs esistente
+  const parts: Uint8Array[] = [bytes.subarray(0, 33), chunk];
+  let offset = 33;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+    if (view.getUint32(offset + 4) !== 0x70485973) parts.push(bytes.subarray(offset, end));
+    offset = end;
+  }
+
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    out.set(part, position);
+    position += part.length;
+  }
+  return out;
+}
+
+/** Copia del file con la densità `dpi` dichiarata; formati diversi da JPEG/PNG restano invariati */
+export async function writeDpi(blob: Blob, dpi: number): Promise<Blob> {
+  if (blob.type !== "image/jpeg" && blob.type !== "image/png") return blob;
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const out = blob.type === "image/jpeg" ? setJpegDpi(bytes, dpi) : setPngDpi(bytes, dpi);
+  return new Blob([out], { type: blob.type });
+}
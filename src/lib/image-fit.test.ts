@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { effectiveDpi, fitLayout, MAX_OUTPUT_PIXELS, mmToPx, outputMimeType, outputSize, placeholderPixelSize } from "@/lib/image-fit";
+
+describe("mmToPx / placeholderPixelSize", () => {
+  it("converte i mm a 300 DPI", () => {
+    expect(mmToPx(25.4)).toBe(300);
+    expect(placeholderPixelSize({ width: 254, height: 127 })).toEqual({ width: 3000, height: 1500 });
+  });
+
+  it("senza dimensioni non c'è area", () => {
+    expect(placeholderPixelSize({ width: 100 })).toBeNull();
+    expect(placeholderPixelSize(undefined)).toBeNull();
+  });
+});
+
+describe("outputSize", () => {
+  const target = { width: 3000, height: 4000 };
+
+  it("con upscale usa l'area di stampa intera", () => {
+    expect(outputSize({ width: 600, height: 800 }, target, "stretch", { allowUpscale: true })).toEqual(target);
+  });
+
+  it("senza upscale non ingrandisce la sorgente", () => {
+    expect(outputSize({ width: 600, height: 800 }, target, "exact")).toEqual({ width: 600, height: 800 });
+    // preserve: conta il lato che riempie l'area
+    expect(outputSize({ width: 600, height: 600 }, target, "preserve")).toEqual({ width: 600, height: 800 });
+  });
+
+  it("limita i pixel del derivato", () => {
+    const out = outputSize({ width: 100, height: 100 }, { width: 10000, height: 10000 }, "stretch", { allowUpscale: true });
+    expect(out.width * out.height).toBeLessThanOrEqual(MAX_OUTPUT_PIXELS * 1.001);
+  });
+});
+
+describe("fitLayout", () => {
+  const source = { width: 200, height: 100 };
+  const output = { width: 100, height: 100 };
+
+  it("stretch riempie tutto", () => {
+    expect(fitLayout(source, output, "stretch")).toMatchObject({ sw: 200, sh: 100, dx: 0, dy: 0, dw: 100, dh: 100 });
+  });
+
+  it("preserve centra con bande", () => {
+    expect(fitLayout(source, output, "preserve")).toMatchObject({ dx: 0, dy: 25, dw: 100, dh: 50 });
+  });
+
+  it("exact ritaglia al centro", () => {
+    expect(fitLayout(source, output, "exact")).toMatchObject({ sx: 50, sy: 0, sw: 100, sh: 100, dw: 100, dh: 100 });
+  });
+});
+
+describe("effectiveDpi", () => {
+  const area = { width: 254, height: 254 }; // 10 pollici
+
+  it("exact/stretch contano il lato più corto", () => {
+    expect(effectiveDpi({ width: 3000, height: 1500 }, area, "exact")).toBe(150);
+    expect(effectiveDpi({ width: 3000, height: 1500 }, area, "stretch")).toBe(150);
+  });
+
+  it("preserve conta il lato più lungo", () => {
+    expect(effectiveDpi({ width: 3000, height: 1500 }, area, "preserve")).toBe(300);
+  });
+});
+
+describe("outputMimeType", () => {
+  it("PNG resta PNG, il resto diventa JPEG", () => {
+    expect(outputMimeType("image/png")).toBe("image/png");
+    expect(outputMimeType("image/webp")).toBe("image/jpeg");
+  });
+});
@@ -0,0 +1,295 @@
+// ==========================================
+// ADATTAMENTO IMMAGINE ALL'AREA DI STAMPA
+// stretch = deforma fino alle proporzioni dell'area, preserve = letterbox centrato,
+// exact = ritaglio centrato (cover). Calcoli puri + resa su OffscreenCanvas nel Web Worker;
+// come ripiego sul main thread, dove OffscreenCanvas manca, su un <canvas>. Gli ingrandimenti passano
+// dall'upscaler registrato; il derivato dichiara i suoi DPI nell'header.
+// ==========================================
+
+import type { BleedFill, BleedSettings } from "@/lib/bleed";
+import { writeDpi } from "@/lib/dpi-metadata";
+import { getUpscaler } from "@/lib/upscaler";
+
+export type FitMode = "stretch" | "preserve" | "exact";
+
+export type ImageProcessingOptions = {
+  upscale: boolean;
+  fitMode: FitMode;
+  /** upscaler registrato da usare; assente = Lanczos integrato */
+  upscaler?: string;
+  /** abbondanza e area sicura del template: l'abbondanza viene aggiunta attorno all'area di stampa */
+  bleed?: BleedSettings;
+};
+
+export type PixelSize = { width: number; height: number };
+
+/** Risoluzione di stampa di riferimento per convertire le aree in mm */
+export const PRINT_DPI = 300;
+/** Tetto ai pixel del derivato: oltre, i canvas del browser falliscono o esauriscono la memoria */
+export const MAX_OUTPUT_PIXELS = 40_000_000;
+/** Sfondo delle bande del letterbox */
+export const DEFAULT_BACKGROUND = "#ffffff";
+
+export const mmToPx = (mm: number, dpi = PRINT_DPI) => Math.round((mm / 25.4) * dpi);
+
+/** Dimensioni in pixel di un placeholder (width/height in mm), null se il template non le riporta */
+export function placeholderPixelSize(placeholder: { width?: number; height?: number } | undefined, dpi = PRINT_DPI): PixelSize | null {
+  if (!placeholder?.width || !placeholder?.height) return null;
+  return { width: mmToPx(placeholder.width, dpi), height: mmToPx(placeholder.height, dpi) };
+}
+
+/**
+ * DPI effettivi della sorgente stampata su un'area in mm: preserve la contiene (conta il lato
+ * più stretto rispetto all'area), stretch ed exact la riempiono (conta il lato più corto).
+ * L'upscale non cambia il risultato: i pixel aggiunti non aggiungono dettaglio.
+ */
+export function effectiveDpi(source: PixelSize, areaMm: { width: number; height: number }, mode: FitMode): number {
+  const dpiX = source.width / (areaMm.width / 25.4);
+  const dpiY = source.height / (areaMm.height / 25.4);
+  return mode === "preserve" ? Math.max(dpiX, dpiY) : Math.min(dpiX, dpiY);
+}
+
+/**
+ * Dimensioni del derivato: proporzioni dell'area di stampa, alla risoluzione di stampa
+ * se `allowUpscale`, altrimenti ridotte finché la sorgente non viene ingrandita.
+ */
+export function outputSize(source: PixelSize, target: PixelSize, mode: FitMode, { allowUpscale = false } = {}): PixelSize {
+  const rw = source.width / target.width;
+  const rh = source.height / target.height;
+  // fattore massimo che non ingrandisce la sorgente nel modo scelto
+  const natural = mode === "exact" ? Math.min(rw, rh) : mode === "preserve" ? Math.max(rw, rh) : Math.sqrt(rw * rh);
+  let k = allowUpscale ? 1 : Math.min(1, natural);
+  const pixels = target.width * target.height * k * k;
+  if (pixels > MAX_OUTPUT_PIXELS) k *= Math.sqrt(MAX_OUTPUT_PIXELS / pixels);
+  return { width: Math.max(1, Math.round(target.width * k)), height: Math.max(1, Math.round(target.height * k)) };
+}
+
+/** Parametri di drawImage: rettangolo sorgente (s*) → rettangolo nel derivato (d*) */
+export type DrawLayout = { sx: number; sy: number; sw: number; sh: number; dx: number; dy: number; dw: number; dh: number };
+
+export function fitLayout(source: PixelSize, output: PixelSize, mode: FitMode): DrawLayout {
+  const full = { sx: 0, sy: 0, sw: source.width, sh: source.height };
+  if (mode === "stretch") return { ...full, dx: 0, dy: 0, dw: output.width, dh: output.height };
+
+  if (mode === "preserve") {
+    const scale = Math.min(output.width / source.width, output.height / source.height);
+    const dw = Math.round(source.width * scale);
+    const dh = Math.round(source.height * scale);
+    return { ...full, dx: Math.floor((output.width - dw) / 2), dy: Math.floor((output.height - dh) / 2), dw, dh };
+  }
+
+  // exact: la porzione centrale della sorgente con le proporzioni del derivato
+  const scale = Math.max(output.width / source.width, output.height / source.height);
+  const sw = Math.min(source.width, output.width / scale);
+  const sh = Math.min(source.height, output.height / scale);
+  return {
+    sx: (source.width - sw) / 2,
+    sy: (source.height - sh) / 2,
+    sw,
+    sh,
+    dx: 0,
+    dy: 0,
+    dw: output.width,
+    dh: output.height,
+  };
+}
+
+export type ProcessImageRequest = {
+  target: PixelSize;
+  fitMode: FitMode;
+  allowUpscale?: boolean;
+  /** id dell'upscaler registrato (default Lanczos) */
+  upscaler?: string;
+  /** abbondanza per lato in mm; il derivato diventa più grande dell'area di stampa */
+  bleed?: { mm: number; fill: BleedFill; color?: string };
+  background?: string;
+  /** qualità JPEG (0-1) */
+  quality?: number;
+};
+
+export type ProcessImageResult = {
+  blob: Blob;
+  width: number;
+  height: number;
+  source: PixelSize;
+  /** densità scritta nel file: 300 se il derivato copre l'area alla risoluzione di stampa */
+  dpi: number;
+  /** upscaler usato, assente se la sorgente non è stata ingrandita */
+  upscaledWith?: string;
+  /** abbondanza aggiunta per lato, in pixel */
+  bleedPx: number;
+};
+
+/** Formato del derivato: PNG resta PNG (trasparenze), tutto il resto diventa JPEG */
+export const outputMimeType = (sourceType: string) => (sourceType === "image/png" ? "image/png" : "image/jpeg");
+
+type Canvas = OffscreenCanvas | HTMLCanvasElement;
+type Context2D = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+const isOffscreen = (canvas: Canvas): canvas is OffscreenCanvas => "convertToBlob" in canvas;
+
+/** OffscreenCanvas dove esiste (sempre nel worker), altrimenti un <canvas> staccato dal DOM */
+function createCanvas(width: number, height: number): Canvas {
+  if (typeof OffscreenCanvas !== "undefined") return new OffscreenCanvas(width, height);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+/**
+ * Contesto 2D sRGB: la bitmap decodificata con colorSpaceConversion "default" viene convertita
+ * dal suo profilo ICC (Adobe RGB, Display P3, CMYK) in sRGB, lo spazio che Gelato si aspetta.
+ */
+function context2d(canvas: Canvas): Context2D {
+  const ctx = canvas.getContext("2d", { colorSpace: "srgb" });
+  if (!ctx) throw new Error("Canvas 2D non disponibile");
+  return ctx;
+}
+
+function canvasToBlob(canvas: Canvas, type: string, quality?: number): Promise<Blob> {
+  if (isOffscreen(canvas)) return canvas.convertToBlob({ type, quality });
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Codifica del canvas fallita"))), type, quality)
+  );
+}
+
+/** Porzione (sx, sy, sw, sh) della bitmap ingrandita a `size` con l'upscaler, come canvas da disegnare */
+async function upscaleRegion(
+  bitmap: ImageBitmap,
+  region: { sx: number; sy: number; sw: number; sh: number },
+  size: PixelSize,
+  upscalerId?: string
+): Promise<{ canvas: Canvas; upscaler: string }> {
+  const upscaler = getUpscaler(upscalerId);
+  const crop = createCanvas(Math.max(1, Math.round(region.sw)), Math.max(1, Math.round(region.sh)));
+  const cropCtx = context2d(crop);
+  cropCtx.drawImage(bitmap, region.sx, region.sy, region.sw, region.sh, 0, 0, crop.width, crop.height);
+  const pixels = cropCtx.getImageData(0, 0, crop.width, crop.height);
+  const up = await upscaler.upscale({ width: crop.width, height: crop.height, data: pixels.data }, size);
+
+  const layer = createCanvas(up.width, up.height);
+  context2d(layer).putImageData(new ImageData(new Uint8ClampedArray(up.data), up.width, up.height), 0, 0);
+  return { canvas: layer, upscaler: upscaler.id };
+}
+
+/**
+ * Aggiunge `px` pixel per lato attorno all'area di stampa già resa:
+ * mirror = bordi riflessi, blur = l'immagine allargata e sfocata, solid = tinta unita.
+ */
+function extendBleed(trim: Canvas, px: number, fill: BleedFill, color: string): Canvas {
+  const { width: w, height: h } = trim;
+  const b = Math.min(px, w, h);
+  const canvas = createCanvas(w + 2 * b, h + 2 * b);
+  const ctx = context2d(canvas);
+
+  if (fill === "solid") {
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  } else if (fill === "blur") {
+    ctx.filter = `blur(${Math.max(2, Math.round(b / 2))}px)`;
+    ctx.drawImage(trim, 0, 0, canvas.width, canvas.height);
+    ctx.filter = "none";
+  } else {
+    // copie riflesse attorno alla linea di taglio: fuori dal canvas vengono tagliate
+    for (const fx of [-1, 0, 1]) {
+      for (const fy of [-1, 0, 1]) {
+        if (!fx && !fy) continue;
+        ctx.save();
+        ctx.translate(fx === 1 ? b + 2 * w : b, fy === 1 ? b + 2 * h : b);
+        ctx.scale(fx ? -1 : 1, fy ? -1 : 1);
+        ctx.drawImage(trim, 0, 0);
+        ctx.restore();
+      }
+    }
+  }
+
+  ctx.drawImage(trim, b, b);
+  return canvas;
+}
+
+export async function processImageFile(file: Blob, request: ProcessImageRequest): Promise<ProcessImageResult> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image", colorSpaceConversion: "default" });
+  try {
+    const source = { width: bitmap.width, height: bitmap.height };
+    const output = outputSize(source, request.target, request.fitMode, { allowUpscale: request.allowUpscale });
+    const layout = fitLayout(source, output, request.fitMode);
+    const type = outputMimeType(file.type);
+
+    const canvas = createCanvas(output.width, output.height);
+    const ctx = context2d(canvas);
+    if (request.fitMode === "preserve" || type === "image/jpeg") {
+      ctx.fillStyle = request.background ?? DEFAULT_BACKGROUND;
+      ctx.fillRect(0, 0, output.width, output.height);
+    }
+
+    // ingrandimento: lo fa l'upscaler; in riduzione basta il ricampionamento del canvas
+    let upscaledWith: string | undefined;
+    if (request.allowUpscale && (layout.dw > Math.round(layout.sw) || layout.dh > Math.round(layout.sh))) {
+      const up = await upscaleRegion(bitmap, layout, { width: layout.dw, height: layout.dh }, request.upscaler);
+      ctx.drawImage(up.canvas, layout.dx, layout.dy);
+      upscaledWith = up.upscaler;
+    } else {
+      ctx.imageSmoothingEnabled = true;
+      ctx.imageSmoothingQuality = "high";
+      ctx.drawImage(bitmap, layout.sx, layout.sy, layout.sw, layout.sh, layout.dx, layout.dy, layout.dw, layout.dh);
+    }
+
+    const dpi = Math.round((PRINT_DPI * output.width) / request.target.width);
+    const { bleed } = request;
+    const bleedPx = bleed?.mm ? mmToPx(bleed.mm, dpi) : 0;
+    const final =
+      bleed && bleedPx ? extendBleed(canvas, bleedPx, bleed.fill, bleed.color ?? request.background ?? DEFAULT_BACKGROUND) : canvas;
+
+    const encoded = await canvasToBlob(final, type, request.quality ?? 0.92);
+    const blob = await writeDpi(encoded, dpi);
+    return { blob, width: final.width, height: final.height, source, dpi, upscaledWith, bleedPx: (final.width - output.width) / 2 };
+  } finally {
+    bitmap.close();
+  }
+}
+
+export type UpscalePreviewRequest = {
+  /** fattore di ingrandimento da mostrare (es. 300 / DPI effettivi) */
+  factor: number;
+  /** lato dell'anteprima in pixel */
+  size?: number;
+  upscaler?: string;
+};
+
+export type UpscalePreviewResult = {
+  /** ingrandimento semplice del browser */
+  before: Blob;
+  /** stesso ritaglio passato all'upscaler */
+  after: Blob;
+  /** porzione della sorgente mostrata, in pixel originali */
+  region: PixelSize;
+};
+
+/** Prima/dopo sul ritaglio centrale della sorgente, allo stesso ingrandimento del derivato */
+export async function renderUpscalePreview(file: Blob, request: UpscalePreviewRequest): Promise<UpscalePreviewResult> {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image", colorSpaceConversion: "default" });
+  try {
+    const size = request.size ?? 320;
+    const factor = Math.max(1, request.factor);
+    const sw = Math.min(bitmap.width, Math.ceil(size / factor));
+    const sh = Math.min(bitmap.height, Math.ceil(size / factor));
+    const region = { sx: Math.floor((bitmap.width - sw) / 2), sy: Math.floor((bitmap.height - sh) / 2), sw, sh };
+    const out = { width: Math.round(sw * factor), height: Math.round(sh * factor) };
+
+    const plain = createCanvas(out.width, out.height);
+    const plainCtx = context2d(plain);
+    plainCtx.imageSmoothingEnabled = true;
+    plainCtx.imageSmoothingQuality = "low";
+    plainCtx.drawImage(bitmap, region.sx, region.sy, sw, sh, 0, 0, out.width, out.height);
+
+    const up = await upscaleRegion(bitmap, region, out, request.upscaler);
+    const [before, after] = await Promise.all([
+      canvasToBlob(plain, "image/png"),
+      canvasToBlob(up.canvas, "image/png"),
+    ]);
+    return { before, after, region: { width: sw, height: sh } };
+  } finally {
+    bitmap.close();
+  }
+}
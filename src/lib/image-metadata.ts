@@ -0,0 +1,193 @@
+// ==========================================
+// LETTURA METADATI IMMAGINE (dimensioni in pixel + DPI + colore)
+// Legge solo l'header di JPEG/PNG, senza decodificare l'immagine intera;
+// per gli altri formati ripiega sul decoder del browser.
+// ==========================================
+
+import { parseIccProfile, type ImageColorInfo } from "@/lib/color-profile";
+
+export type ImageMetadata = ImageColorInfo & {
+  width: number;
+  height: number;
+  /** DPI dichiarati nel file (JFIF, EXIF o pHYs), se presenti */
+  dpi?: number;
+};
+
+/** Header letto: il profilo ICC grezzo va ancora interpretato (nel PNG è compresso) */
+type HeaderMetadata = Partial<ImageMetadata> & { icc?: Uint8Array; iccCompressed?: boolean };
+
+const ICC_MARKER = "ICC_PROFILE\0";
+
+const HEADER_BYTES = 512 * 1024;
+
+function joinChunks(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let position = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, position);
+    position += chunk.length;
+  }
+  return out;
+}
+
+function readJpeg(view: DataView): HeaderMetadata | null {
+  if (view.getUint16(0) !== 0xffd8) return null;
+  const out: HeaderMetadata = {};
+  // il profilo ICC può essere diviso in più segmenti APP2 numerati
+  const iccChunks: Uint8Array[] = [];
+  const bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+  let offset = 2;
+
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return out.width ? out : null;
+    const marker = view.getUint8(offset + 1);
+    const length = view.getUint16(offset + 2);
+    const segment = offset + 4;
+
+    if (marker === 0xe0 && !out.dpi && segment + 12 <= view.byteLength && view.getUint32(segment) === 0x4a464946) {
+      // APP0 JFIF: unità (1 = dpi, 2 = dpcm) + densità X
+      const units = view.getUint8(segment + 7);
+      const density = view.getUint16(segment + 8);
+      if (density > 1 && units === 1) out.dpi = density;
+      if (density > 1 && units === 2) out.dpi = Math.round(density * 2.54);
+    }
+
+    if (marker === 0xe1 && segment + 6 <= view.byteLength && view.getUint32(segment) === 0x45786966) {
+      const exifDpi = readExifDpi(view, segment + 6);
+      if (exifDpi) out.dpi = exifDpi;
+    }
+
+    if (marker === 0xe2 && segment + 14 <= view.byteLength && String.fromCharCode(...bytes.subarray(segment, segment + 12)) === ICC_MARKER) {
+      const sequence = view.getUint8(segment + 12);
+      iccChunks[sequence - 1] = bytes.slice(segment + 14, Math.min(segment + length - 2, view.byteLength));
+    }
+
+    const isSof = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isSof && segment + 6 <= view.byteLength) {
+      out.bitDepth = view.getUint8(segment);
+      out.height = view.getUint16(segment + 1);
+      out.width = view.getUint16(segment + 3);
+      const components = view.getUint8(segment + 5);
+      out.colorSpace = components === 4 ? "CMYK" : components === 1 ? "GRAY" : "RGB";
+      if (iccChunks.length && iccChunks.every(Boolean)) out.icc = joinChunks(iccChunks);
+      return out;
+    }
+
+    offset = segment + length - 2;
+  }
+  return out.width ? out : null;
+}
+
+function readExifDpi(view: DataView, tiff: number): number | undefined {
+  if (tiff + 8 > view.byteLength) return undefined;
+  const little = view.getUint16(tiff) === 0x4949;
+  const u16 = (o: number) => view.getUint16(o, little);
+  const u32 = (o: number) => view.getUint32(o, little);
+
+  const ifd = tiff + u32(tiff + 4);
+  if (ifd + 2 > view.byteLength) return undefined;
+  const entries = u16(ifd);
+  let xRes: number | undefined;
+  let unit = 2;
+
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = u16(entry);
+    if (tag === 0x011a) {
+      const valueOffset = tiff + u32(entry + 8);
+      if (valueOffset + 8 <= view.byteLength) {
+        const den = u32(valueOffset + 4);
+        if (den) xRes = u32(valueOffset) / den;
+      }
+    }
+    if (tag === 0x0128) unit = u16(entry + 8);
+  }
+
+  if (!xRes || xRes <= 1) return undefined;
+  return Math.round(unit === 3 ? xRes * 2.54 : xRes);
+}
+
+function readPng(view: DataView): HeaderMetadata | null {
+  if (view.byteLength < 26 || view.getUint32(0) !== 0x89504e47) return null;
+  // IHDR: profondità per canale e tipo colore (0 e 4 = scala di grigi)
+  const colorType = view.getUint8(25);
+  const out: HeaderMetadata = {
+    width: view.getUint32(16),
+    height: view.getUint32(20),
+    bitDepth: view.getUint8(24),
+    colorSpace: colorType === 0 || colorType === 4 ? "GRAY" : "RGB",
+  };
+
+  let offset = 8;
+  while (offset + 8 <= view.byteLength) {
+    const length = view.getUint32(offset);
+    const type = view.getUint32(offset + 4);
+    if (type === 0x70485973 && offset + 17 <= view.byteLength) {
+      // pHYs: pixel per unità, unità 1 = metro
+      const ppu = view.getUint32(offset + 8);
+      if (view.getUint8(offset + 16) === 1 && ppu > 0) out.dpi = Math.round(ppu * 0.0254);
+    }
+    if (type === 0x73524742) out.iccProfile = "sRGB"; // chunk sRGB
+    if (type === 0x69434350 && offset + 8 + length <= view.byteLength) {
+      // iCCP: nome, terminatore, metodo di compressione, profilo zlib
+      const data = new Uint8Array(view.buffer, view.byteOffset + offset + 8, length);
+      const nameEnd = data.indexOf(0);
+      if (nameEnd > 0) {
+        out.icc = data.slice(nameEnd + 2);
+        out.iccCompressed = true;
+      }
+    }
+    if (type === 0x49444154) break; // IDAT: i metadati sono prima
+    offset += 12 + length;
+  }
+  return out;
+}
+
+function decodeDimensions(file: Blob): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Impossibile decodificare l'immagine"));
+    };
+    img.src = url;
+  });
+}
+
+async function inflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** Spazio colore e nome del profilo ICC incorporato; un profilo illeggibile viene ignorato */
+async function readColorInfo(header: HeaderMetadata): Promise<ImageColorInfo> {
+  const color: ImageColorInfo = { colorSpace: header.colorSpace, iccProfile: header.iccProfile, bitDepth: header.bitDepth };
+  if (!header.icc) return color;
+  try {
+    const profile = parseIccProfile(header.iccCompressed ? await inflate(header.icc) : header.icc);
+    if (profile) {
+      color.colorSpace = profile.colorSpace;
+      color.iccProfile = profile.name ?? color.iccProfile;
+    }
+  } catch { /* profilo corrotto o DecompressionStream non disponibile */ }
+  return color;
+}
+
+export async function readImageMetadata(file: Blob): Promise<ImageMetadata> {
+  const view = new DataView(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  const header = readJpeg(view) ?? readPng(view);
+  const color = header ? await readColorInfo(header) : {};
+
+  if (header?.width && header?.height) {
+    return { width: header.width, height: header.height, dpi: header.dpi, ...color };
+  }
+
+  const { width, height } = await decodeDimensions(file);
+  return { width, height, dpi: header?.dpi, ...color };
+}
@@ -0,0 +1,91 @@
+// ==========================================
+// PROCESSORE IMMAGINI (client del Web Worker)
+// Un worker condiviso elabora le richieste in coda; senza Worker/OffscreenCanvas
+// (browser vecchi) si ripiega sul main thread con lo stesso codice, su un <canvas>.
+// ==========================================
+
+import {
+  processImageFile,
+  renderUpscalePreview,
+  type ProcessImageRequest,
+  type ProcessImageResult,
+  type UpscalePreviewRequest,
+  type UpscalePreviewResult,
+} from "@/lib/image-fit";
+import type { ImageWorkerRequest, ImageWorkerResponse } from "@/workers/image-processor.worker";
+
+type WorkerResult = ProcessImageResult | UpscalePreviewResult;
+type Pending = { resolve: (result: WorkerResult) => void; reject: (error: Error) => void };
+
+let worker: Worker | null = null;
+const pending = new Map<number, Pending>();
+let nextId = 1;
+
+const supportsWorker = () => typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined";
+
+function getWorker(): Worker {
+  if (worker) return worker;
+  worker = new Worker(new URL("../workers/image-processor.worker.ts", import.meta.url), { type: "module" });
+  worker.addEventListener("message", (event: MessageEvent<ImageWorkerResponse>) => {
+    const entry = pending.get(event.data.id);
+    if (!entry) return;
+    pending.delete(event.data.id);
+    if ("error" in event.data) entry.reject(new Error(event.data.error));
+    else entry.resolve(event.data.result);
+  });
+  worker.addEventListener("error", (event) => {
+    // worker non avviabile: le richieste in corso falliscono, le prossime ne creano uno nuovo
+    pending.forEach((entry) => entry.reject(new Error(event.message || "Image worker crashed")));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  });
+  return worker;
+}
+
+type WorkerJob = { kind: "process"; file: Blob; request: ProcessImageRequest } | { kind: "preview"; file: Blob; request: UpscalePreviewRequest };
+
+function runInWorker(job: WorkerJob, signal?: AbortSignal): Promise<WorkerResult> {
+  const id = nextId++;
+  return new Promise<WorkerResult>((resolve, reject) => {
+    const onAbort = () => {
+      // il worker finisce comunque il lavoro: il risultato viene ignorato
+      pending.delete(id);
+      reject(signal?.reason ?? new DOMException("Aborted", "AbortError"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    pending.set(id, {
+      resolve: (result) => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(result);
+      },
+      reject: (error) => {
+        signal?.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+    });
+    const message: ImageWorkerRequest = { id, ...job };
+    getWorker().postMessage(message);
+  });
+}
+
+export async function processImage(
+  file: Blob,
+  request: ProcessImageRequest,
+  { signal }: { signal?: AbortSignal } = {}
+): Promise<ProcessImageResult> {
+  signal?.throwIfAborted();
+  if (!supportsWorker()) return processImageFile(file, request);
+  return (await runInWorker({ kind: "process", file, request }, signal)) as ProcessImageResult;
+}
+
+/** Anteprima prima/dopo dell'upscaler, calcolata nel worker */
+export async function previewUpscale(
+  file: Blob,
+  request: UpscalePreviewRequest,
+  { signal }: { signal?: AbortSignal } = {}
+): Promise<UpscalePreviewResult> {
+  signal?.throwIfAborted();
+  if (!supportsWorker()) return renderUpscalePreview(file, request);
+  return (await runInWorker({ kind: "preview", file, request }, signal)) as UpscalePreviewResult;
+}
@@ -0,0 +1,42 @@
+// Database IndexedDB locale dell'app: sessioni di upload e cache degli hash caricati
+
+const DB_NAME = "gelato-bulk";
+const DB_VERSION = 2;
+
+export const UPLOAD_SESSIONS_STORE = "uploadSessions";
+export const UPLOADED_HASHES_STORE = "uploadedHashes";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(UPLOAD_SESSIONS_STORE)) db.createObjectStore(UPLOAD_SESSIONS_STORE, { keyPath: "id" });
+      if (!db.objectStoreNames.contains(UPLOADED_HASHES_STORE)) db.createObjectStore(UPLOADED_HASHES_STORE, { keyPath: "id" });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const req = run(tx.objectStore(storeName));
+    tx.oncomplete = () => {
+      db.close();
+      resolve(req.result as T);
+    };
+    tx.onerror = () => {
+      db.close();
+      reject(tx.error);
+    };
+  });
+}
+
+export const hasIndexedDb = () => typeof indexedDB !== "undefined";
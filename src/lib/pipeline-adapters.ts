@@ -0,0 +1,96 @@
+import type { BulkCreateRequest, GelatoTemplate, PipelineAdapters, ProductResult } from "@/lib/bulk-pipeline";
+import { backendUrl, getBackendUrl } from "@/lib/backend-config";
+import { cancelJob, clearActiveJob, jobResults, readJobStream, saveActiveJob, waitForJob, type BulkJobStatus } from "@/lib/bulk-jobs";
+import { uploadOriginalFile } from "@/lib/upload-engine";
+import { apiErrorMessage } from "@/lib/bulk-schemas";
+import { authHeaders } from "@/lib/auth";
+import { processImage } from "@/lib/image-processor";
+
+export type WorkerAdapterOptions = {
+  baseUrl?: string;
+  partConcurrency?: number;
+  /** connessione salvata: il backend usa la sua chiave per leggere il template */
+  connectionId: string;
+};
+
+// Adapter di rete verso il Worker Cloudflare, usati dalla UI.
+export function createWorkerAdapters({ baseUrl = getBackendUrl(), partConcurrency, connectionId }: WorkerAdapterOptions): PipelineAdapters {
+  return {
+    fetchTemplate: async (templateId, { signal } = {}) => {
+      const query = new URLSearchParams({ templateId, connectionId });
+      const tplRes = await fetch(backendUrl(`/gelato-get-template?${query}`, baseUrl), { headers: await authHeaders(), signal });
+      if (!tplRes.ok) {
+        const detail = apiErrorMessage(await tplRes.json().catch(() => null), "");
+        throw new Error(`Errore nel download del Template da Gelato${detail ? `: ${detail}` : ""}`);
+      }
+      return (await tplRes.json()) as GelatoTemplate;
+    },
+
+    // fit mode nel Web Worker, prima dell'upload del derivato
+    processImage: (file, request, options) => processImage(file, request, options),
+
+    uploadFile: (file, exactFileName, { onProgress, control, metadata } = {}) =>
+      uploadOriginalFile(file, exactFileName, { baseUrl, partConcurrency, onProgress, control, metadata }),
+
+    submitProducts: async (request: BulkCreateRequest, { signal, onJobUpdate } = {}) => {
+      const createRes = await fetch(backendUrl("/gelato-bulk-create", baseUrl), {
+        method: "POST",
+        // Preferiamo lo stream SSE; un worker che non lo supporta risponde in JSON
+        headers: { "Content-Type": "application/json", Accept: "text/event-stream, application/json", ...(await authHeaders()) },
+        body: JSON.stringify(request),
+        signal,
+      });
+
+      if (!createRes.ok) {
+        const raw = await createRes.text().catch(() => "");
+        let message = raw;
+        try {
+          message = apiErrorMessage(JSON.parse(raw), raw);
+        } catch { /* risposta non JSON */ }
+        throw new Error(`Gelato API: ${message}`);
+      }
+
+      let job: BulkJobStatus;
+      let jobId: string | undefined;
+      // Il job resta salvato finché non termina: se la pagina si ricarica la UI si riconnette
+      const remember = (id: string, total: number) => {
+        jobId = id;
+        saveActiveJob({ jobId: id, baseUrl, total, startedAt: Date.now() });
+      };
+
+      try {
+        if ((createRes.headers.get("Content-Type") ?? "").includes("text/event-stream")) {
+          let saved = false;
+          const streamed = await readJobStream(createRes, {
+            onUpdate: (update) => {
+              if (!saved) remember(update.id, update.total);
+              saved = true;
+              onJobUpdate?.(update);
+            },
+          });
+          if (!streamed.job) throw new Error("Gelato API: stream interrotto prima della creazione del job");
+          // Stream caduto a metà: il job continua lato server, proseguiamo col polling
+          job = streamed.finished ? streamed.job : await waitForJob(streamed.job.id, { baseUrl, signal, onUpdate: onJobUpdate });
+        } else {
+          const data = await createRes.json();
+          // Worker non ancora aggiornato: risposta sincrona con i risultati
+          if (!data.jobId) return { results: (data.results || []) as ProductResult[] };
+
+          remember(data.jobId, data.total ?? request.products.length);
+          job = await waitForJob(data.jobId, { baseUrl, signal, onUpdate: onJobUpdate });
+        }
+      } catch (e) {
+        // Annullato dall'utente dopo l'invio: chiudere lo stream non basta, il job va fermato sul server.
+        // Resta salvato, così dopo un reload si vede come si conclude.
+        if (signal?.aborted && jobId) {
+          await cancelJob(jobId, { baseUrl }).catch((error) => console.error(`Annullamento del job ${jobId} non riuscito`, error));
+        }
+        throw e;
+      }
+
+      clearActiveJob(job.id);
+      if (job.status === "failed") throw new Error(`Gelato API: ${job.error || "job fallito"}`);
+      return { results: jobResults(job) };
+    },
+  };
+}
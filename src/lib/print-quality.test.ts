@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PRINT_QUALITY_THRESHOLDS, printQualityStatus, validatePrintQuality, validatePrintQualityThresholds } from "@/lib/print-quality";
+import type { GelatoTemplate, PipelineImage, ProductRulesType } from "@/lib/bulk-pipeline";
+
+const rules = { titleMode: "filename", tagsCustom: [] } as unknown as ProductRulesType;
+const image = (name: string, width?: number, height?: number): PipelineImage => ({
+  id: name,
+  name,
+  file: new File([], name),
+  width,
+  height,
+});
+
+describe("printQualityStatus", () => {
+  const t = DEFAULT_PRINT_QUALITY_THRESHOLDS;
+  it.each([
+    [300, "pass"],
+    [200, "pass"],
+    [199, "warn"],
+    [119, "fail"],
+    [null, "unknown"],
+  ] as const)("%s DPI → %s", (dpi, status) => {
+    expect(printQualityStatus(dpi, t)).toBe(status);
+  });
+});
+
+describe("validatePrintQualityThresholds", () => {
+  it("rifiuta soglie incoerenti", () => {
+    expect(validatePrintQualityThresholds({ ...DEFAULT_PRINT_QUALITY_THRESHOLDS, failBelowDpi: 300 })).not.toBeNull();
+    expect(validatePrintQualityThresholds(DEFAULT_PRINT_QUALITY_THRESHOLDS)).toBeNull();
+  });
+});
+
+describe("validatePrintQuality", () => {
+  const template: GelatoTemplate = {
+    id: "tpl",
+    variants: [
+      { id: "small", title: "20x20", imagePlaceholders: [{ name: "front", width: 254, height: 254 }] },
+      { id: "big", title: "100x100", imagePlaceholders: [{ name: "front", width: 1016, height: 1016 }] },
+    ],
+  };
+
+  it("valuta ogni variante con il file assegnato", () => {
+    const report = validatePrintQuality([image("Poster.jpg", 3000, 3000)], template, rules, "exact", DEFAULT_PRINT_QUALITY_THRESHOLDS);
+    expect(report.checks.map((c) => [c.templateVariantId, c.dpi, c.status])).toEqual([
+      ["small", 300, "pass"],
+      ["big", 75, "fail"],
+    ]);
+    expect(report.blocked).toBe(true);
+  });
+
+  it("senza dimensioni il controllo è unknown e non blocca", () => {
+    const report = validatePrintQuality([image("Poster.jpg")], template, rules, "exact", DEFAULT_PRINT_QUALITY_THRESHOLDS);
+    expect(report.counts.unknown).toBe(2);
+    expect(report.blocked).toBe(false);
+  });
+});
@@ -0,0 +1,130 @@
+// ==========================================
+// QUALITÀ DI STAMPA (step 4)
+// DPI effettivi di ogni immagine su ogni variante a cui verrà assegnata, confrontati con
+// soglie configurabili per store. Un "fail" può bloccare la creazione, un "warn" la segnala.
+// ==========================================
+
+import {
+  getPlaceholder,
+  getVariantRatioTag,
+  planGroups,
+  resolveVariantFile,
+  type GelatoTemplate,
+  type PipelineImage,
+  type ProductRulesType,
+} from "@/lib/bulk-pipeline";
+import { effectiveDpi, type FitMode } from "@/lib/image-fit";
+import { DEFAULT_RATIO_RULES, type RatioRule } from "@/lib/ratio-rules";
+import { storeScopedKey } from "@/lib/store-scope";
+
+/** unknown = dimensioni dell'immagine o dell'area di stampa non note */
+export type PrintQualityStatus = "pass" | "warn" | "fail" | "unknown";
+
+export type PrintQualityThresholds = {
+  /** sotto questa soglia la variante è "warn" */
+  warnBelowDpi: number;
+  /** sotto questa soglia la variante è "fail" */
+  failBelowDpi: number;
+  /** true = un "fail" impedisce la creazione, false = solo avviso */
+  blockOnFail: boolean;
+};
+
+export const DEFAULT_PRINT_QUALITY_THRESHOLDS: PrintQualityThresholds = {
+  warnBelowDpi: 200,
+  failBelowDpi: 120,
+  blockOnFail: true,
+};
+
+export type VariantQualityCheck = {
+  baseTitle: string;
+  imageId: string;
+  sourceName: string;
+  templateVariantId: string;
+  variantTitle: string;
+  /** area di stampa in mm */
+  areaMm: { width: number; height: number } | null;
+  dpi: number | null;
+  status: PrintQualityStatus;
+};
+
+export type PrintQualityReport = {
+  checks: VariantQualityCheck[];
+  counts: Record<PrintQualityStatus, number>;
+  /** la creazione va fermata: c'è almeno un "fail" e le soglie lo bloccano */
+  blocked: boolean;
+};
+
+const LS_KEY = "gelato.printQuality";
+
+export function loadPrintQualityThresholds(storeId?: string | null): PrintQualityThresholds {
+  try {
+    const raw = JSON.parse(localStorage.getItem(storeScopedKey(LS_KEY, storeId)) ?? localStorage.getItem(LS_KEY) ?? "null");
+    if (raw && typeof raw.warnBelowDpi === "number" && typeof raw.failBelowDpi === "number") {
+      return { warnBelowDpi: raw.warnBelowDpi, failBelowDpi: raw.failBelowDpi, blockOnFail: raw.blockOnFail !== false };
+    }
+  } catch { /* valore corrotto: default */ }
+  return DEFAULT_PRINT_QUALITY_THRESHOLDS;
+}
+
+export function savePrintQualityThresholds(thresholds: PrintQualityThresholds, storeId?: string | null) {
+  try {
+    localStorage.setItem(storeScopedKey(LS_KEY, storeId), JSON.stringify(thresholds));
+  } catch { /* storage pieno o disabilitato */ }
+}
+
+/** Errore da mostrare sotto le soglie, null se sono coerenti */
+export function validatePrintQualityThresholds(thresholds: PrintQualityThresholds): string | null {
+  if (!(thresholds.failBelowDpi > 0) || !(thresholds.warnBelowDpi > 0)) return "Le soglie DPI devono essere positive";
+  if (thresholds.failBelowDpi > thresholds.warnBelowDpi) return "La soglia di blocco non può superare quella di avviso";
+  return null;
+}
+
+export function printQualityStatus(dpi: number | null, thresholds: PrintQualityThresholds): PrintQualityStatus {
+  if (dpi === null) return "unknown";
+  if (dpi < thresholds.failBelowDpi) return "fail";
+  if (dpi < thresholds.warnBelowDpi) return "warn";
+  return "pass";
+}
+
+/**
+ * Un controllo per ogni coppia immagine/variante del piano: stesso raggruppamento e stessa
+ * assegnazione ratio → file della pipeline, quindi riflette esattamente cosa verrà stampato.
+ */
+export function validatePrintQuality(
+  images: PipelineImage[],
+  template: GelatoTemplate,
+  rules: ProductRulesType,
+  fitMode: FitMode,
+  thresholds: PrintQualityThresholds,
+  ratioRules: RatioRule[] = DEFAULT_RATIO_RULES
+): PrintQualityReport {
+  const checks: VariantQualityCheck[] = [];
+  for (const group of planGroups(images, rules, ratioRules)) {
+    const availableTags = Object.keys(group.files);
+    for (const v of template.variants ?? []) {
+      const { ratioTag } = resolveVariantFile(getVariantRatioTag(v.title, ratioRules), availableTags);
+      if (!ratioTag) continue;
+      const image = group.files[ratioTag];
+      const placeholder = getPlaceholder(v, template);
+      const areaMm = placeholder?.width && placeholder?.height ? { width: placeholder.width, height: placeholder.height } : null;
+      const dpi =
+        areaMm && image.width && image.height
+          ? Math.round(effectiveDpi({ width: image.width, height: image.height }, areaMm, fitMode))
+          : null;
+      checks.push({
+        baseTitle: group.baseTitle,
+        imageId: image.id,
+        sourceName: image.name,
+        templateVariantId: v.id,
+        variantTitle: v.title,
+        areaMm,
+        dpi,
+        status: printQualityStatus(dpi, thresholds),
+      });
+    }
+  }
+
+  const counts: Record<PrintQualityStatus, number> = { pass: 0, warn: 0, fail: 0, unknown: 0 };
+  for (const c of checks) counts[c.status]++;
+  return { checks, counts, blocked: thresholds.blockOnFail && counts.fail > 0 };
+}
@@ -0,0 +1,45 @@
+// ==========================================
+// OPZIONI DI PUBBLICAZIONE (step 4)
+// Bozza o pubblicato e canali di vendita; il backend le valida contro lo store collegato.
+// Salvate per store: ogni store ha i suoi canali.
+// ==========================================
+
+import { storeScopedKey } from "@/lib/store-scope";
+
+export type PublishOptions = {
+  publish: boolean;
+  salesChannels: string[];
+};
+
+export const SALES_CHANNEL_OPTIONS: Array<{ id: string; label: string }> = [
+  { id: "web", label: "Negozio online Gelato" },
+  { id: "shopify", label: "Shopify" },
+  { id: "etsy", label: "Etsy" },
+  { id: "woocommerce", label: "WooCommerce" },
+];
+
+export const DEFAULT_PUBLISH_OPTIONS: PublishOptions = { publish: true, salesChannels: ["shopify"] };
+
+const LS_KEY = "gelato.publishOptions";
+
+export function loadPublishOptions(storeId?: string | null): PublishOptions {
+  try {
+    const raw = JSON.parse(localStorage.getItem(storeScopedKey(LS_KEY, storeId)) ?? localStorage.getItem(LS_KEY) ?? "null");
+    if (raw && typeof raw.publish === "boolean" && Array.isArray(raw.salesChannels)) {
+      return { publish: raw.publish, salesChannels: raw.salesChannels.filter((c: unknown) => typeof c === "string") };
+    }
+  } catch { /* valore corrotto: default */ }
+  return DEFAULT_PUBLISH_OPTIONS;
+}
+
+export function savePublishOptions(options: PublishOptions, storeId?: string | null) {
+  try {
+    localStorage.setItem(storeScopedKey(LS_KEY, storeId), JSON.stringify(options));
+  } catch { /* storage pieno o disabilitato */ }
+}
+
+/** Errore da mostrare prima dell'invio, null se le opzioni sono valide */
+export function validatePublishOptions(options: PublishOptions): string | null {
+  if (options.publish && options.salesChannels.length === 0) return "Scegli almeno un canale di vendita per pubblicare";
+  return null;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { matchFileRatio, matchVariantRatio, nearestRatioKey, parseRatio } from "@/lib/ratio-rules";
+
+describe("matchFileRatio", () => {
+  it.each([
+    ["Sunset (11x14).jpg", "11x14"],
+    ["Sunset 11x14.jpg", "11x14"],
+    ["Sunset (1x1).jpg", "1x1"],
+    ["Sunset (3x4).jpg", "3x4"],
+    ["Sunset (13x4).jpg", "default"],
+    ["Sunset ISO (5x7).jpg", "5x7"],
+    ["Isola.jpg", "default"],
+    ["Sunset (4x5).png", "4x5"],
+    ["Sunset.jpg", "default"],
+  ])("%s → %s", (name, tag) => {
+    expect(matchFileRatio(name)).toBe(tag);
+  });
+});
+
+describe("matchVariantRatio", () => {
+  it.each([
+    ["Poster 28x35 cm", "4x5"],
+    ["Poster 11x14 in", "11x14"],
+    ["Poster 30x40 cm", "3x4"],
+    ["Poster 30x400 cm", "default"],
+    ["Poster A4", "5x7"],
+    ["Poster A3 - Matte", "5x7"],
+    ["Panama Canvas", "default"],
+    ["Banana print", "default"],
+    ["Poster 50x50 cm", "1x1"],
+    ["Poster 18x24 in", "default"], // 3x4 senza ripiego numerico
+    ["Poster 21x29.7 cm", "5x7"],
+    ["", "default"],
+  ])("%s → %s", (title, tag) => {
+    expect(matchVariantRatio(title)).toBe(tag);
+  });
+
+  it("a parità di match vince il pattern più lungo", () => {
+    const rules = [
+      { key: "1x1", filenamePatterns: [], variantPatterns: ["poster"], tolerance: 0 },
+      { key: "2x3", filenamePatterns: [], variantPatterns: ["poster xl"], tolerance: 0 },
+    ];
+    expect(matchVariantRatio("Poster XL", rules)).toBe("2x3");
+  });
+});
+
+describe("parseRatio / nearestRatioKey", () => {
+  it("normalizza su lato corto / lato lungo", () => {
+    expect(parseRatio("40x30")).toBe(0.75);
+    expect(parseRatio("21 × 29,7")).toBeCloseTo(0.707, 3);
+    expect(parseRatio("A4")).toBeNull();
+  });
+
+  it("trova la ratio più vicina ai pixel", () => {
+    expect(nearestRatioKey(3000, 4000)).toBe("3x4");
+    expect(nearestRatioKey(4000, 4000)).toBe("1x1");
+    expect(nearestRatioKey(1000, 3000)).toBe("default");
+  });
+});
@@ -0,0 +1,173 @@
+// ==========================================
+// TABELLA RATIO CONFIGURABILE
+// Ogni regola dice come riconoscere una ratio dal nome file e dal titolo
+// della variante Gelato. Salvata per utente in user_settings, per store e template.
+// ==========================================
+
+import { storeScopedKey } from "@/lib/store-scope";
+import { loadUserSetting, saveUserSettingLater } from "@/lib/user-settings";
+
+export type RatioRule = {
+  /** tag della ratio, es. "3x4"; "AxB" abilita anche il match numerico */
+  key: string;
+  /** token (case-insensitive) cercati nel nome file, non dentro numeri o parole più lunghe */
+  filenamePatterns: string[];
+  /** token (case-insensitive) cercati nel titolo della variante, con gli stessi confini */
+  variantPatterns: string[];
+  /** scarto massimo tra rapporti lato corto/lato lungo per il match numerico; 0 lo disattiva */
+  tolerance: number;
+};
+
+export const DEFAULT_RATIO_RULES: RatioRule[] = [
+  {
+    key: "3x4",
+    filenamePatterns: ["(3x4)", "3x4"],
+    variantPatterns: ["30x40", "40x30", "60x45", "75x100"],
+    tolerance: 0,
+  },
+  {
+    key: "5x7",
+    filenamePatterns: ["(5x7)", "5x7", "iso"],
+    variantPatterns: ["50x70", "70x50", "100x140", "140x100", "a0", "a1", "a2", "a3", "a4", "a5"],
+    tolerance: 0.01,
+  },
+  {
+    key: "1x1",
+    filenamePatterns: ["(1x1)", "1x1"],
+    variantPatterns: ["30x30", "50x50", "100x100", "70x70"],
+    tolerance: 0,
+  },
+  {
+    key: "2x3",
+    filenamePatterns: ["(2x3)", "2x3"],
+    variantPatterns: ["20x30", "40x60", "60x90", "8x12", "12x18", "24x36"],
+    tolerance: 0.01,
+  },
+  {
+    key: "4x5",
+    filenamePatterns: ["(4x5)", "4x5"],
+    variantPatterns: ["40x50", "8x10", "16x20", "24x30", "28x35"],
+    tolerance: 0.01,
+  },
+  {
+    key: "11x14",
+    filenamePatterns: ["(11x14)", "11x14"],
+    variantPatterns: ["11x14", "14x11"],
+    tolerance: 0.005,
+  },
+];
+
+/** prefisso localStorage usato prima della tabella, importato al primo caricamento */
+const LS_PREFIX = "gelato.ratioRules.";
+
+/** "30x40" → 0.75 (sempre lato corto / lato lungo), null se non numerico */
+export function parseRatio(text: string): number | null {
+  const m = text.match(/(\d+(?:[.,]\d+)?)\s*[x×]\s*(\d+(?:[.,]\d+)?)/i);
+  if (!m) return null;
+  const a = parseFloat(m[1].replace(",", "."));
+  const b = parseFloat(m[2].replace(",", "."));
+  if (!a || !b) return null;
+  return Math.min(a, b) / Math.max(a, b);
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Il pattern deve comparire come token: non preceduto né seguito da lettere o cifre,
+ * così "1x1" non scatta dentro "11x14" e "a4" non scatta dentro "Panama".
+ */
+function matchesToken(text: string, pattern: string): boolean {
+  if (!pattern) return false;
+  return new RegExp(`(?<![0-9a-z])${escapeRegExp(pattern.toLowerCase())}(?![0-9a-z])`).test(text.toLowerCase());
+}
+
+/** Regola con il pattern più lungo trovato nel testo; a parità vince l'ordine della tabella */
+function bestRuleMatch(text: string, rules: RatioRule[], patternsOf: (r: RatioRule) => string[]): RatioRule | null {
+  let best: { rule: RatioRule; length: number } | null = null;
+  for (const rule of rules) {
+    for (const pattern of patternsOf(rule)) {
+      if ((!best || pattern.length > best.length) && matchesToken(text, pattern)) best = { rule, length: pattern.length };
+    }
+  }
+  return best ? best.rule : null;
+}
+
+export function matchFileRatio(filename: string, rules: RatioRule[] = DEFAULT_RATIO_RULES): string {
+  const rule = bestRuleMatch(filename, rules, (r) => r.filenamePatterns);
+  return rule ? rule.key : "default";
+}
+
+export function matchVariantRatio(variantTitle: string, rules: RatioRule[] = DEFAULT_RATIO_RULES): string {
+  const title = variantTitle || "";
+  const explicit = bestRuleMatch(title, rules, (r) => r.variantPatterns);
+  if (explicit) return explicit.key;
+
+  // Ripiego numerico: la ratio più vicina entro la tolleranza della regola
+  const measured = parseRatio(title);
+  if (measured === null) return "default";
+  let best: { key: string; diff: number } | null = null;
+  for (const r of rules) {
+    const target = parseRatio(r.key);
+    if (target === null || !(r.tolerance > 0)) continue;
+    const diff = Math.abs(measured - target);
+    if (diff <= r.tolerance && (!best || diff < best.diff)) best = { key: r.key, diff };
+  }
+  return best ? best.key : "default";
+}
+
+/** Scarto massimo perché una ratio misurata sui pixel venga considerata "vicina" */
+export const MEASURED_RATIO_MAX_DIFF = 0.03;
+
+/** Ratio della tabella più vicina alle dimensioni reali dell'immagine, "default" se nessuna è vicina */
+export function nearestRatioKey(width: number, height: number, rules: RatioRule[] = DEFAULT_RATIO_RULES): string {
+  if (!width || !height) return "default";
+  const measured = Math.min(width, height) / Math.max(width, height);
+  let best: { key: string; diff: number } | null = null;
+  for (const r of rules) {
+    const target = parseRatio(r.key);
+    if (target === null) continue;
+    const diff = Math.abs(measured - target);
+    if (diff <= MEASURED_RATIO_MAX_DIFF && (!best || diff < best.diff)) best = { key: r.key, diff };
+  }
+  return best ? best.key : "default";
+}
+
+export type ImageRatioInfo = {
+  /** ratio dedotta dal nome file */
+  hint: string;
+  /** ratio dedotta dai pixel, null se le dimensioni non sono note */
+  measured: string | null;
+  /** ratio usata per il raggruppamento */
+  tag: string;
+  /** il nome file e i pixel indicano ratio diverse */
+  conflict: boolean;
+};
+
+export function resolveImageRatio(
+  image: { name: string; width?: number; height?: number },
+  rules: RatioRule[] = DEFAULT_RATIO_RULES
+): ImageRatioInfo {
+  const hint = matchFileRatio(image.name, rules);
+  const measured = image.width && image.height ? nearestRatioKey(image.width, image.height, rules) : null;
+  return {
+    hint,
+    measured,
+    tag: hint !== "default" ? hint : measured ?? "default",
+    conflict: hint !== "default" && measured !== null && measured !== hint,
+  };
+}
+
+/**
+ * Tabella dell'utente per store e template. Le tabelle globali salvate prima del multi-store
+ * non vengono importate: non si sa a quale store appartenessero.
+ */
+export async function loadRatioRules(templateId: string, storeId?: string | null): Promise<RatioRule[]> {
+  if (!storeId) return DEFAULT_RATIO_RULES;
+  const raw = await loadUserSetting("ratio_rules", storeId, templateId, storeScopedKey(LS_PREFIX + templateId, storeId));
+  return Array.isArray(raw) ? (raw as RatioRule[]) : DEFAULT_RATIO_RULES;
+}
+
+/** Salvataggio ritardato: l'editor chiama a ogni modifica */
+export function saveRatioRules(templateId: string, rules: RatioRule[], storeId: string) {
+  saveUserSettingLater("ratio_rules", storeId, templateId, rules);
+}
@@ -0,0 +1,24 @@
+// ==========================================
+// PRESET DELLE REGOLE PRODOTTO
+// "Save rules" nello step 4 memorizza titolo/descrizione/tag dell'utente per lo store attivo
+// (tabella user_settings); cambiando store dallo switcher si ricarica il suo preset.
+// ==========================================
+
+import type { ProductRulesType } from "@/lib/bulk-pipeline";
+import { storeScopedKey } from "@/lib/store-scope";
+import { loadUserSetting, saveUserSetting } from "@/lib/user-settings";
+
+/** chiave localStorage usata prima della tabella, importata al primo caricamento */
+const LS_KEY = "gelato.rulesPreset";
+
+export async function loadRulesPreset(storeId: string | null | undefined, fallback: ProductRulesType): Promise<ProductRulesType> {
+  if (!storeId) return fallback;
+  const raw = await loadUserSetting("rules_preset", storeId, "", storeScopedKey(LS_KEY, storeId));
+  // campi aggiunti dopo il salvataggio prendono il default
+  if (raw && typeof raw === "object") return { ...fallback, ...raw };
+  return fallback;
+}
+
+export async function saveRulesPreset(storeId: string, rules: ProductRulesType): Promise<void> {
+  await saveUserSetting("rules_preset", storeId, "", rules);
+}
@@ -0,0 +1,105 @@
+// ==========================================
+// CONTROLLO ESECUZIONE: pausa, ripresa, annullamento
+// La pausa blocca l'avvio di nuovi file/fette (quelli in volo terminano);
+// l'annullamento interrompe anche le richieste in corso via AbortController.
+// ==========================================
+
+export class RunCancelledError extends Error {
+  constructor(message = "Operazione annullata") {
+    super(message);
+    this.name = "RunCancelledError";
+  }
+}
+
+export class RunController {
+  private readonly abortController = new AbortController();
+  private paused = false;
+  private waiters: Array<() => void> = [];
+
+  get signal(): AbortSignal {
+    return this.abortController.signal;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  get isCancelled(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  pause() {
+    this.paused = true;
+  }
+
+  resume() {
+    this.paused = false;
+    this.release();
+  }
+
+  cancel() {
+    this.abortController.abort();
+    this.paused = false;
+    this.release();
+  }
+
+  /** Da chiamare prima di ogni nuovo lavoro: attende se in pausa, lancia se annullato */
+  async checkpoint(): Promise<void> {
+    this.throwIfCancelled();
+    while (this.paused) {
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+      this.throwIfCancelled();
+    }
+  }
+
+  throwIfCancelled() {
+    if (this.isCancelled) throw new RunCancelledError();
+  }
+
+  private release() {
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach((resolve) => resolve());
+  }
+}
+
+/** Parte di RunController che serve a chi esegue il lavoro */
+export type RunControl = Pick<RunController, "signal" | "checkpoint" | "throwIfCancelled" | "isCancelled">;
+
+/**
+ * RunControl annullato anche da `signal` (es. quando un lavoro parallelo fallisce):
+ * la pausa resta quella del run, ma un checkpoint in attesa si sblocca all'annullamento.
+ */
+export function linkRunControl(control: RunControl | undefined, signal: AbortSignal): RunControl {
+  const linked = new AbortController();
+  const abort = () => linked.abort();
+  for (const source of [control?.signal, signal]) {
+    if (source?.aborted) abort();
+    else source?.addEventListener("abort", abort, { once: true });
+  }
+  const throwIfCancelled = () => {
+    if (linked.signal.aborted) throw new RunCancelledError();
+  };
+
+  return {
+    signal: linked.signal,
+    get isCancelled() {
+      return linked.signal.aborted;
+    },
+    throwIfCancelled,
+    async checkpoint() {
+      throwIfCancelled();
+      if (!control) return;
+      let onAbort = () => {};
+      const cancelled = new Promise<never>((_, reject) => {
+        onAbort = () => reject(new RunCancelledError());
+        linked.signal.addEventListener("abort", onAbort, { once: true });
+      });
+      try {
+        await Promise.race([control.checkpoint(), cancelled]);
+      } finally {
+        linked.signal.removeEventListener("abort", onAbort);
+      }
+    },
+  };
+}
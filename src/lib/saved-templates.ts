@@ -0,0 +1,124 @@
+// ==========================================
+// TEMPLATE SALVATI
+// Tabella saved_templates (RLS): ogni utente vede i suoi e quelli del suo team, per store.
+// Quelli dei colleghi sono segnati come condivisi; se lo stesso template è salvato due volte vale il proprio.
+// Al primo caricamento quelli rimasti in localStorage per lo stesso store vengono importati e
+// rimossi dal browser; quelli globali (prima del multi-store) solo se l'utente sceglie lo store.
+// ==========================================
+
+import { supabase } from "@/integrations/supabase/client";
+import { storeScopedKey } from "@/lib/store-scope";
+import { currentUserId } from "@/lib/auth";
+
+export type SavedTemplate = {
+  id: string;
+  /** uuid gelato */
+  templateId: string;
+  /** come lo vedi nel dropdown */
+  name: string;
+  productType?: string;
+  variants?: string[];
+  createdAt: number;
+  /** salvato da un altro membro del team: visibile, ma non modificabile */
+  shared: boolean;
+};
+
+const LS_KEY = "gelato.savedTemplates";
+const MAX_SAVED = 50;
+
+type SavedTemplateRow = {
+  id: string;
+  user_id: string;
+  template_id: string;
+  name: string;
+  product_type: string | null;
+  variants: string[];
+  created_at: string;
+};
+
+const SAVED_TEMPLATE_COLUMNS = "id, user_id, template_id, name, product_type, variants, created_at";
+
+const toSavedTemplate = (row: SavedTemplateRow, userId: string | undefined): SavedTemplate => ({
+  id: row.id,
+  templateId: row.template_id,
+  name: row.name,
+  productType: row.product_type ?? undefined,
+  variants: row.variants.length ? row.variants : undefined,
+  createdAt: Date.parse(row.created_at),
+  shared: row.user_id !== userId,
+});
+
+function readLocalTemplates(key: string): SavedTemplate[] {
+  try {
+    const local = JSON.parse(localStorage.getItem(key) || "[]");
+    return Array.isArray(local) ? local : [];
+  } catch {
+    return []; // valore corrotto: si scarta
+  }
+}
+
+function removeLocalTemplates(key: string) {
+  try {
+    localStorage.removeItem(key);
+  } catch { /* storage non disponibile */ }
+}
+
+/** Porta nel database i template salvati in localStorage sotto `key`, poi li rimuove dal browser */
+async function importLocalTemplates(storeId: string, key: string) {
+  const local = readLocalTemplates(key);
+  if (local.length) {
+    const { error } = await supabase.from("saved_templates").upsert(
+      local.map((t) => ({ store_id: storeId, template_id: t.templateId, name: t.name, product_type: t.productType ?? null, variants: t.variants ?? [] })),
+      { onConflict: "user_id,store_id,template_id", ignoreDuplicates: true }
+    );
+    if (error) throw new Error(`Import dei template locali fallito: ${error.message}`);
+  }
+  removeLocalTemplates(key);
+}
+
+/** Template globali salvati prima del multi-store: non appartengono a nessuno store finché l'utente non sceglie */
+export const countLegacyTemplates = () => readLocalTemplates(LS_KEY).length;
+
+/** Importa i template globali nello store scelto dall'utente */
+export const importLegacyTemplates = (storeId: string) => importLocalTemplates(storeId, LS_KEY);
+
+export const discardLegacyTemplates = () => removeLocalTemplates(LS_KEY);
+
+export async function listSavedTemplates(storeId: string): Promise<SavedTemplate[]> {
+  await importLocalTemplates(storeId, storeScopedKey(LS_KEY, storeId));
+  const [userId, { data, error }] = await Promise.all([
+    currentUserId(),
+    supabase
+      .from("saved_templates")
+      .select(SAVED_TEMPLATE_COLUMNS)
+      .eq("store_id", storeId)
+      .order("created_at", { ascending: false })
+      .limit(MAX_SAVED),
+  ]);
+  if (error) throw new Error(error.message);
+  const templates = data.map((row) => toSavedTemplate(row, userId));
+  // un template per templateId (è il valore del dropdown): il proprio prima di quello di un collega
+  const byTemplateId = new Map<string, SavedTemplate>();
+  for (const t of templates) {
+    const kept = byTemplateId.get(t.templateId);
+    if (!kept || (kept.shared && !t.shared)) byTemplateId.set(t.templateId, t);
+  }
+  return templates.filter((t) => byTemplateId.get(t.templateId) === t);
+}
+
+/** Salva (o rinomina) un template per lo store: niente duplicati sullo stesso templateId */
+export async function saveTemplate(
+  storeId: string,
+  entry: Pick<SavedTemplate, "templateId" | "name" | "productType" | "variants">
+): Promise<SavedTemplate> {
+  const { data, error } = await supabase
+    .from("saved_templates")
+    .upsert(
+      { store_id: storeId, template_id: entry.templateId, name: entry.name, product_type: entry.productType ?? null, variants: entry.variants ?? [] },
+      { onConflict: "user_id,store_id,template_id" }
+    )
+    .select(SAVED_TEMPLATE_COLUMNS)
+    .single();
+  if (error) throw new Error(error.message);
+  return toSavedTemplate(data, data.user_id);
+}
@@ -0,0 +1,159 @@
+// ==========================================
+// CONNESSIONE ALLO STORE GELATO
+// La chiave API viene inviata una sola volta a gelato-connections, che la verifica e la salva cifrata
+// in store_connections. Il browser conserva solo gli id opachi delle connessioni e quale è attiva.
+// ==========================================
+
+import { backendUrl, getBackendUrl } from "@/lib/backend-config";
+import { authHeaders } from "@/lib/auth";
+import {
+  apiErrorMessage,
+  StoreConnectionInfoSchema,
+  type ApiError,
+  type ApiErrorCode,
+  type StoreConnectionInfo,
+  type StoreInfo,
+} from "@/lib/bulk-schemas";
+
+export type { StoreInfo };
+
+/** Connessione verificata, come la conserva BulkCreator: nessuna chiave, solo metadati */
+export type StoreConnection = StoreConnectionInfo;
+
+const LS_KEY = "gelato.connectionIds";
+const ACTIVE_LS_KEY = "gelato.activeConnectionId";
+/** formati precedenti: chiave in chiaro (da eliminare) e singola connessione (da migrare) */
+const LEGACY_CREDS_LS_KEY = "gelato.creds";
+const LEGACY_SINGLE_LS_KEY = "gelato.connectionId";
+
+/** All'uscita dell'utente: le connessioni restano sue, il browser le dimentica */
+export function forgetConnections() {
+  try {
+    localStorage.removeItem(LS_KEY);
+    localStorage.removeItem(ACTIVE_LS_KEY);
+  } catch { /* storage non disponibile */ }
+}
+
+export class StoreVerificationError extends Error {
+  constructor(readonly code: ApiErrorCode | "network_error", message: string) {
+    super(message);
+    this.name = "StoreVerificationError";
+  }
+}
+
+export function loadConnectionIds(): string[] {
+  try {
+    localStorage.removeItem(LEGACY_CREDS_LS_KEY);
+    const legacy = localStorage.getItem(LEGACY_SINGLE_LS_KEY);
+    if (legacy) {
+      localStorage.removeItem(LEGACY_SINGLE_LS_KEY);
+      saveConnectionIds([legacy]);
+      saveActiveConnectionId(legacy);
+    }
+    const raw = JSON.parse(localStorage.getItem(LS_KEY) || "[]");
+    return Array.isArray(raw) ? raw.filter((id): id is string => typeof id === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveConnectionIds(ids: string[]) {
+  try {
+    localStorage.setItem(LS_KEY, JSON.stringify([...new Set(ids)]));
+  } catch { /* storage non disponibile */ }
+}
+
+export function loadActiveConnectionId(): string | null {
+  try {
+    return localStorage.getItem(ACTIVE_LS_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function saveActiveConnectionId(id: string | null) {
+  try {
+    if (id) localStorage.setItem(ACTIVE_LS_KEY, id);
+    else localStorage.removeItem(ACTIVE_LS_KEY);
+  } catch { /* storage non disponibile */ }
+}
+
+type RequestOptions = { baseUrl?: string; signal?: AbortSignal };
+
+async function connectionsRequest(
+  method: "GET" | "POST" | "PATCH" | "DELETE",
+  { query, body }: { query?: Record<string, string>; body?: unknown },
+  { baseUrl = getBackendUrl(), signal }: RequestOptions
+): Promise<unknown> {
+  const qs = query ? `?${new URLSearchParams(query)}` : "";
+  let res: Response;
+  try {
+    res = await fetch(backendUrl(`/gelato-connections${qs}`, baseUrl), {
+      method,
+      headers: { "Content-Type": "application/json", ...(await authHeaders()) },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal,
+    });
+  } catch (e) {
+    if (signal?.aborted) throw e;
+    throw new StoreVerificationError("network_error", "Could not reach the backend");
+  }
+
+  const payload = await res.json().catch(() => null);
+  if (!res.ok) {
+    const error = (payload as { error?: ApiError } | null)?.error;
+    const code = typeof error === "object" && error?.code ? error.code : "upstream_error";
+    throw new StoreVerificationError(code, apiErrorMessage(payload, `Request failed (${res.status})`));
+  }
+  return payload;
+}
+
+function parseConnection(payload: unknown): StoreConnection {
+  const parsed = StoreConnectionInfoSchema.safeParse((payload as { connection?: unknown } | null)?.connection);
+  if (!parsed.success) throw new StoreVerificationError("upstream_error", "Unexpected response from gelato-connections");
+  return parsed.data;
+}
+
+/** Verifica chiave + store e salva la connessione cifrata lato server */
+export async function connectStore(apiKey: string, storeId: string, options: RequestOptions = {}): Promise<StoreConnection> {
+  return parseConnection(await connectionsRequest("POST", { body: { apiKey, storeId } }, options));
+}
+
+/** Connessioni dell'utente e del suo team */
+export async function listConnections(options: RequestOptions = {}): Promise<StoreConnection[]> {
+  const payload = await connectionsRequest("GET", {}, options);
+  const parsed = StoreConnectionInfoSchema.array().safeParse((payload as { connections?: unknown } | null)?.connections);
+  if (!parsed.success) throw new StoreVerificationError("upstream_error", "Unexpected response from gelato-connections");
+  return parsed.data;
+}
+
+const isGone = (e: unknown) => e instanceof StoreVerificationError && (e.code === "not_found" || e.code === "validation_failed");
+
+/** Connessioni note al browser più quelle dell'utente; `missing` sono gli id eliminati lato server */
+export async function loadConnections(
+  ids: string[],
+  options: RequestOptions = {}
+): Promise<{ connections: StoreConnection[]; missing: string[] }> {
+  const [owned, ...known] = await Promise.allSettled([listConnections(options), ...ids.map((id) => fetchConnection(id, options))]);
+  const all = [
+    ...(owned.status === "fulfilled" ? owned.value : []),
+    ...known.flatMap((r) => (r.status === "fulfilled" ? [r.value] : [])),
+  ];
+  return {
+    connections: all.filter((c, i) => all.findIndex((other) => other.id === c.id) === i),
+    missing: ids.filter((_, i) => known[i].status === "rejected" && isGone((known[i] as PromiseRejectedResult).reason)),
+  };
+}
+
+export async function fetchConnection(connectionId: string, options: RequestOptions = {}): Promise<StoreConnection> {
+  return parseConnection(await connectionsRequest("GET", { query: { connectionId } }, options));
+}
+
+/** Sostituisce la chiave: deve dare accesso allo stesso store */
+export async function rotateConnectionKey(connectionId: string, apiKey: string, options: RequestOptions = {}): Promise<StoreConnection> {
+  return parseConnection(await connectionsRequest("PATCH", { body: { connectionId, apiKey } }, options));
+}
+
+export async function disconnectStore(connectionId: string, options: RequestOptions = {}): Promise<void> {
+  await connectionsRequest("DELETE", { query: { connectionId } }, options);
+}
@@ -0,0 +1,10 @@
+// ==========================================
+// DATI LOCALI PER STORE
+// Template salvati, preset e opzioni vivono in localStorage con una chiave per store,
+// così cambiare store dallo switcher non mescola le configurazioni.
+// ==========================================
+
+/** Chiave localStorage di un dato salvato per store; senza store resta la chiave globale */
+export function storeScopedKey(key: string, storeId: string | null | undefined): string {
+  return storeId ? `${key}@${storeId}` : key;
+}
@@ -0,0 +1,37 @@
+// ==========================================
+// CACHE LOCALE HASH → URL PUBBLICO
+// Se un batch fallito viene rilanciato, i file già su R2 non vengono ricaricati.
+// ==========================================
+
+import { hasIndexedDb, UPLOADED_HASHES_STORE as STORE, withStore } from "@/lib/local-db";
+
+export type UploadedHash = {
+  /** backend + sha256 */
+  id: string;
+  sha256: string;
+  baseUrl: string;
+  url: string;
+  uploadedAt: number;
+};
+
+export interface UploadHashCache {
+  get(baseUrl: string, sha256: string): Promise<string | undefined>;
+  put(baseUrl: string, sha256: string, url: string): Promise<void>;
+}
+
+const cacheId = (baseUrl: string, sha256: string) => `${baseUrl}|${sha256}`;
+
+export const indexedDbHashCache: UploadHashCache = {
+  get: async (baseUrl, sha256) => {
+    const entry = await withStore<UploadedHash | undefined>(STORE, "readonly", (s) => s.get(cacheId(baseUrl, sha256)));
+    return entry?.url;
+  },
+  put: async (baseUrl, sha256, url) => {
+    const entry: UploadedHash = { id: cacheId(baseUrl, sha256), sha256, baseUrl, url, uploadedAt: Date.now() };
+    await withStore(STORE, "readwrite", (s) => s.put(entry));
+  },
+};
+
+export function getDefaultHashCache(): UploadHashCache | undefined {
+  return hasIndexedDb() ? indexedDbHashCache : undefined;
+}
@@ -0,0 +1,216 @@
+import { describe, expect, it } from "vitest";
+import { CHUNK_SIZE, uploadOriginalFile } from "@/lib/upload-engine";
+import { RunCancelledError, RunController } from "@/lib/run-control";
+import { fileFingerprint, uploadSessionId, type UploadSession, type UploadSessionStore } from "@/lib/upload-sessions";
+
+const BASE = "https://worker.test";
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+
+type PartHandler = (partNumber: number, attempt: number, signal?: AbortSignal | null) => Promise<Response | undefined>;
+
+// Worker finto: risponde a upload-start/part/complete/abort, registra le chiamate
+// e quante fette sono in volo contemporaneamente
+function fakeWorker(onPart: PartHandler = async () => undefined) {
+  const calls: { path: string; uploadId: string | null; partNumber?: number; body?: string }[] = [];
+  const attempts = new Map<number, number>();
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  const fetchImpl = (async (input: string, init?: RequestInit) => {
+    const url = new URL(input);
+    const partNumber = url.searchParams.has("partNumber") ? Number(url.searchParams.get("partNumber")) : undefined;
+    calls.push({ path: url.pathname, uploadId: url.searchParams.get("uploadId"), partNumber, body: typeof init?.body === "string" ? init.body : undefined });
+
+    switch (url.pathname) {
+      case "/upload-start":
+        return json({ uploadId: "up-1", key: "k/Sunset.jpg" });
+      case "/upload-part": {
+        const attempt = (attempts.get(partNumber!) ?? 0) + 1;
+        attempts.set(partNumber!, attempt);
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        try {
+          await new Promise((r) => setTimeout(r, 5));
+          return (await onPart(partNumber!, attempt, init?.signal)) ?? json({ partNumber, etag: `e${partNumber}` });
+        } finally {
+          inFlight--;
+        }
+      }
+      case "/upload-complete":
+        return json({ url: "https://r2/Sunset.jpg" });
+      case "/upload-abort":
+        return json({});
+      default:
+        return json({ error: "not found" }, 404);
+    }
+  }) as typeof fetch;
+
+  return {
+    fetchImpl,
+    calls,
+    get maxInFlight() {
+      return maxInFlight;
+    },
+    partCalls: () => calls.filter((c) => c.path === "/upload-part").map((c) => c.partNumber),
+  };
+}
+
+function memorySessionStore(...saved: UploadSession[]) {
+  const sessions = new Map(saved.map((s) => [s.id, s]));
+  const store: UploadSessionStore = {
+    get: async (id) => sessions.get(id),
+    put: async (session) => {
+      sessions.set(session.id, structuredClone(session));
+    },
+    delete: async (id) => {
+      sessions.delete(id);
+    },
+    list: async () => [...sessions.values()],
+  };
+  return { store, sessions };
+}
+
+// tre fette: due piene e una da 10 byte
+const threePartFile = () => new File([new Uint8Array(2 * CHUNK_SIZE + 10)], "Sunset.jpg", { lastModified: 1_700_000_000_000 });
+const multipart = { baseUrl: BASE, sessionStore: null, hashCache: null, dedupe: false, retryDelayMs: 1 } as const;
+
+describe("uploadOriginalFile", () => {
+  it("con un file già caricato registra i metadati e riusa l'URL", async () => {
+    const calls: { url: string; body?: string }[] = [];
+    const fetchImpl = (async (url: string, init?: RequestInit) => {
+      calls.push({ url, body: init?.body as string | undefined });
+      if (url.includes("/upload-lookup")) return new Response(JSON.stringify({ url: "https://r2/sunset.jpg" }));
+      return new Response("{}");
+    }) as typeof fetch;
+
+    const url = await uploadOriginalFile(new Blob([new Uint8Array(8)]), "Sunset.jpg", {
+      baseUrl: "https://worker.test",
+      fetchImpl,
+      sessionStore: null,
+      hashCache: null,
+      metadata: { "color-output": "original", "source-color-space": "CMYK" },
+    });
+
+    expect(url).toBe("https://r2/sunset.jpg");
+    expect(calls.map((c) => new URL(c.url).pathname)).toEqual(["/upload-lookup", "/upload-metadata"]);
+    expect(JSON.parse(calls[1].body ?? "{}")).toEqual({ metadata: { "color-output": "original", "source-color-space": "CMYK" } });
+  });
+
+  it("un errore del backend sui metadati non blocca il riuso", async () => {
+    const fetchImpl = (async (url: string) => {
+      if (url.includes("/upload-lookup")) return new Response(JSON.stringify({ url: "https://r2/sunset.jpg" }));
+      throw new Error("Errore di rete");
+    }) as typeof fetch;
+
+    await expect(
+      uploadOriginalFile(new Blob([new Uint8Array(8)]), "Sunset.jpg", {
+        baseUrl: "https://worker.test",
+        fetchImpl,
+        sessionStore: null,
+        hashCache: null,
+        metadata: { "color-output": "sRGB" },
+      })
+    ).resolves.toBe("https://r2/sunset.jpg");
+  });
+});
+
+describe("upload multipart", () => {
+  it("ritenta una fetta fallita e completa l'upload", async () => {
+    const worker = fakeWorker(async (partNumber, attempt) => (partNumber === 2 && attempt === 1 ? json({ error: "R2 down" }, 500) : undefined));
+
+    const url = await uploadOriginalFile(threePartFile(), "Sunset.jpg", { ...multipart, fetchImpl: worker.fetchImpl });
+
+    expect(url).toBe("https://r2/Sunset.jpg");
+    expect(worker.partCalls().sort()).toEqual([1, 2, 2, 3]);
+    const complete = worker.calls.find((c) => c.path === "/upload-complete");
+    expect(JSON.parse(complete?.body ?? "{}").parts.map((p: { etag: string }) => p.etag)).toEqual(["e1", "e2", "e3"]);
+  });
+
+  it("esauriti i tentativi riporta la fetta e l'ultimo errore", async () => {
+    const worker = fakeWorker(async (partNumber) => (partNumber === 3 ? json({ error: "R2 down" }, 500) : undefined));
+
+    await expect(uploadOriginalFile(threePartFile(), "Sunset.jpg", { ...multipart, fetchImpl: worker.fetchImpl, retries: 2 })).rejects.toThrow(
+      "Fallito chunk 3/3: R2 down"
+    );
+    expect(worker.partCalls().filter((n) => n === 3)).toHaveLength(2);
+    expect(worker.calls.some((c) => c.path === "/upload-complete")).toBe(false);
+  });
+
+  it("non supera il numero di fette in parallelo", async () => {
+    const worker = fakeWorker();
+    await uploadOriginalFile(threePartFile(), "Sunset.jpg", { ...multipart, fetchImpl: worker.fetchImpl, partConcurrency: 2 });
+    expect(worker.partCalls()).toHaveLength(3);
+    expect(worker.maxInFlight).toBe(2);
+  });
+});
+
+describe("ripresa di una sessione salvata", () => {
+  const savedSession = (file: File, uploadId: string, donePartNumbers: number[]): UploadSession => ({
+    id: uploadSessionId(fileFingerprint(file), "Sunset.jpg", BASE),
+    fingerprint: fileFingerprint(file),
+    fileName: "Sunset.jpg",
+    baseUrl: BASE,
+    uploadId,
+    key: "k/Sunset.jpg",
+    size: file.size,
+    chunkSize: CHUNK_SIZE,
+    totalParts: 3,
+    parts: donePartNumbers.map((partNumber) => ({ partNumber, data: { partNumber, etag: `saved-${partNumber}` } })),
+    createdAt: 0,
+    updatedAt: 0,
+  });
+
+  it("invia solo le fette mancanti e completa con tutte nell'ordine", async () => {
+    const file = threePartFile();
+    const { store, sessions } = memorySessionStore(savedSession(file, "up-saved", [2, 1]));
+    const worker = fakeWorker();
+
+    const url = await uploadOriginalFile(file, "Sunset.jpg", { ...multipart, fetchImpl: worker.fetchImpl, sessionStore: store });
+
+    expect(url).toBe("https://r2/Sunset.jpg");
+    expect(worker.calls.map((c) => c.path)).toEqual(["/upload-part", "/upload-complete"]);
+    expect(worker.partCalls()).toEqual([3]);
+    expect(JSON.parse(worker.calls[1].body ?? "{}").parts.map((p: { etag: string }) => p.etag)).toEqual(["saved-1", "saved-2", "e3"]);
+    expect(sessions.size).toBe(0);
+  });
+
+  it("con una sessione scaduta sul Worker ricomincia da capo", async () => {
+    const file = threePartFile();
+    const { store } = memorySessionStore(savedSession(file, "up-expired", [1]));
+    let expired = true;
+    const worker = fakeWorker(async () => (expired ? json({ error: "No such upload" }, 404) : undefined));
+    const fetchImpl = (async (input: string, init?: RequestInit) => {
+      if (input.includes("/upload-start")) expired = false;
+      return worker.fetchImpl(input, init);
+    }) as typeof fetch;
+
+    await expect(uploadOriginalFile(file, "Sunset.jpg", { ...multipart, fetchImpl, sessionStore: store })).resolves.toBe("https://r2/Sunset.jpg");
+    expect(worker.calls.filter((c) => c.path === "/upload-start")).toHaveLength(1);
+    expect(worker.partCalls().slice(-3).sort()).toEqual([1, 2, 3]);
+  });
+});
+
+describe("annullamento", () => {
+  it("interrompe le fette in volo, abortisce l'upload sul Worker e scarta la sessione", async () => {
+    const controller = new RunController();
+    const { store, sessions } = memorySessionStore();
+    const worker = fakeWorker(async (partNumber, _attempt, signal) => {
+      if (partNumber === 1) {
+        controller.cancel();
+        return undefined;
+      }
+      return new Promise<Response>((_, reject) => {
+        if (signal?.aborted) reject(new DOMException("Aborted", "AbortError"));
+        signal?.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")));
+      });
+    });
+
+    await expect(
+      uploadOriginalFile(threePartFile(), "Sunset.jpg", { ...multipart, fetchImpl: worker.fetchImpl, sessionStore: store, control: controller })
+    ).rejects.toBeInstanceOf(RunCancelledError);
+
+    expect(worker.calls.filter((c) => c.path === "/upload-abort").map((c) => c.uploadId)).toEqual(["up-1"]);
+    expect(worker.calls.some((c) => c.path === "/upload-complete")).toBe(false);
+    expect(sessions.size).toBe(0);
+  });
+});
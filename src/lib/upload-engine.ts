@@ -0,0 +1,380 @@
+// ==========================================
+// MOTORE DI UPLOAD MULTIPART BLINDATO
+// ==========================================
+
+import { backendUrl, getBackendUrl } from "@/lib/backend-config";
+import { mapWithConcurrency } from "@/lib/concurrency";
+import {
+  fileFingerprint,
+  getDefaultSessionStore,
+  uploadSessionId,
+  type UploadSession,
+  type UploadSessionStore,
+} from "@/lib/upload-sessions";
+import { linkRunControl, RunCancelledError, type RunControl } from "@/lib/run-control";
+import { sha256FileCached } from "@/lib/file-hash";
+import { getDefaultHashCache, type UploadHashCache } from "@/lib/upload-cache";
+
+export const CHUNK_SIZE = 6 * 1024 * 1024; // 6MB Esatti (aggira il limite RAM del Worker e R2)
+export const DEFAULT_PART_CONCURRENCY = 4;
+
+type FetchLike = typeof fetch;
+
+export type ChunkProgress = {
+  partNumber: number;
+  loaded: number;
+  total: number;
+  status: "pending" | "uploading" | "done";
+};
+
+export type UploadProgress = {
+  loaded: number;
+  total: number;
+  parts: ChunkProgress[];
+};
+
+const PROGRESS_THROTTLE_MS = 100;
+
+export type UploadOptions = {
+  baseUrl?: string;
+  fetchImpl?: FetchLike;
+  retries?: number;
+  retryDelayMs?: number;
+  /** fette da 6MB inviate in parallelo per lo stesso file */
+  partConcurrency?: number;
+  /** dove salvare le sessioni riprendibili; null disattiva la persistenza */
+  sessionStore?: UploadSessionStore | null;
+  /** avanzamento in byte del file e di ogni fetta */
+  onProgress?: (progress: UploadProgress) => void;
+  /** pausa/annullamento: nessuna nuova fetta parte in pausa, l'annullamento interrompe quelle in volo */
+  control?: RunControl;
+  /** riusa l'URL di un file con lo stesso SHA-256 già caricato (default: true) */
+  dedupe?: boolean;
+  /** cache locale hash → URL; null la disattiva */
+  hashCache?: UploadHashCache | null;
+  /** metadati dell'oggetto su R2 (es. profilo colore dell'originale), inviati a upload-start */
+  metadata?: Record<string, string>;
+};
+
+/** upload-part ha risposto 404: l'uploadId non esiste più sul Worker (scaduto o abortito) */
+export class UploadSessionExpiredError extends Error {
+  constructor(message = "Sessione di upload scaduta sul Worker") {
+    super(message);
+    this.name = "UploadSessionExpiredError";
+  }
+}
+
+async function readError(res: Response): Promise<string> {
+  const raw = await res.text().catch(() => "");
+  try {
+    return JSON.parse(raw).error || raw;
+  } catch {
+    return raw;
+  }
+}
+
+type PartResponse = { status: number; ok: boolean; text: string };
+
+// XHR quando disponibile: fetch non espone l'avanzamento dell'upload
+async function sendPart(
+  url: string,
+  chunk: Blob,
+  options: UploadOptions,
+  onBytes: (loaded: number) => void
+): Promise<PartResponse> {
+  const signal = options.control?.signal;
+
+  if (!options.fetchImpl && typeof XMLHttpRequest !== "undefined") {
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      const onAbort = () => xhr.abort();
+      signal?.addEventListener("abort", onAbort);
+      const done = () => signal?.removeEventListener("abort", onAbort);
+
+      xhr.open("POST", url);
+      xhr.setRequestHeader("Content-Type", "application/octet-stream");
+      xhr.upload.onprogress = (e) => onBytes(e.loaded);
+      xhr.onload = () => {
+        done();
+        resolve({ status: xhr.status, ok: xhr.status >= 200 && xhr.status < 300, text: xhr.responseText });
+      };
+      xhr.onerror = () => {
+        done();
+        reject(new Error("Errore di rete"));
+      };
+      xhr.onabort = () => {
+        done();
+        reject(new RunCancelledError());
+      };
+      if (signal?.aborted) xhr.abort();
+      else xhr.send(chunk);
+    });
+  }
+
+  const res = await (options.fetchImpl ?? fetch)(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/octet-stream" },
+    body: chunk,
+    signal
+  });
+  const text = await res.text();
+  if (res.ok) onBytes(chunk.size);
+  return { status: res.status, ok: res.ok, text };
+}
+
+function resolveStore(options: UploadOptions): UploadSessionStore | undefined {
+  return options.sessionStore === undefined ? getDefaultSessionStore() : options.sessionStore ?? undefined;
+}
+
+function resolveHashCache(options: UploadOptions): UploadHashCache | undefined {
+  return options.hashCache === undefined ? getDefaultHashCache() : options.hashCache ?? undefined;
+}
+
+/** Cerca un originale già caricato con lo stesso contenuto: prima in cache locale, poi sul backend */
+export async function findUploadedByHash(sha256: string, options: UploadOptions = {}): Promise<string | undefined> {
+  const BASE_URL = options.baseUrl ?? getBackendUrl();
+  const cache = resolveHashCache(options);
+
+  const cached = await cache?.get(BASE_URL, sha256).catch(() => undefined);
+  if (cached) return cached;
+
+  // Lookup best-effort: se il backend non risponde si carica normalmente
+  const res = await (options.fetchImpl ?? fetch)(backendUrl(`/upload-lookup?sha256=${sha256}`, BASE_URL), {
+    signal: options.control?.signal,
+  }).catch(() => undefined);
+  options.control?.throwIfCancelled();
+  if (!res?.ok) return undefined;
+
+  const data = await res.json().catch(() => ({}));
+  if (!data?.url) return undefined;
+  await cache?.put(BASE_URL, sha256, data.url).catch(() => {});
+  return data.url;
+}
+
+/**
+ * Registra i metadati di un file già presente (deduplica): il caricamento precedente può averne
+ * salvati altri o nessuno. Best-effort come il lookup: un errore non blocca il riuso dell'URL.
+ */
+async function recordUploadMetadata(sha256: string, metadata: Record<string, string>, options: UploadOptions = {}): Promise<void> {
+  const BASE_URL = options.baseUrl ?? getBackendUrl();
+  await (options.fetchImpl ?? fetch)(backendUrl(`/upload-metadata?sha256=${sha256}`, BASE_URL), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ metadata }),
+    signal: options.control?.signal,
+  }).catch(() => undefined);
+  options.control?.throwIfCancelled();
+}
+
+export async function uploadOriginalFile(file: Blob, exactFileName: string, options: UploadOptions = {}): Promise<string> {
+  const BASE_URL = options.baseUrl ?? getBackendUrl();
+  const doFetch = options.fetchImpl ?? fetch;
+  const store = resolveStore(options);
+  const sessionId = uploadSessionId(fileFingerprint(file), exactFileName, BASE_URL);
+
+  await options.control?.checkpoint();
+
+  // 0a. Deduplica per contenuto: stesso SHA-256 → stesso URL, nessun upload
+  let sha256: string | undefined;
+  if (options.dedupe !== false) {
+    sha256 = await sha256FileCached(file, options.control?.signal).catch(() => {
+      options.control?.throwIfCancelled();
+      return undefined;
+    });
+    const existingUrl = sha256 ? await findUploadedByHash(sha256, { ...options, baseUrl: BASE_URL }) : undefined;
+    if (sha256 && existingUrl) {
+      if (options.metadata) await recordUploadMetadata(sha256, options.metadata, { ...options, baseUrl: BASE_URL });
+      options.onProgress?.({ loaded: file.size, total: file.size, parts: [] });
+      return existingUrl;
+    }
+  }
+
+  // 0b. Riprendi una sessione salvata per lo stesso file, se compatibile
+  const saved = await store?.get(sessionId).catch(() => undefined);
+  if (saved && saved.size === file.size && saved.chunkSize === CHUNK_SIZE) {
+    try {
+      return await uploadOrAbort(file, saved, options);
+    } catch (e) {
+      if (!(e instanceof UploadSessionExpiredError)) throw e;
+      await store?.delete(sessionId).catch(() => {});
+    }
+  }
+
+  // 1. Inizializza
+  const hashParam = sha256 ? `&sha256=${sha256}` : "";
+  const startRes = await doFetch(backendUrl(`/upload-start?filename=${encodeURIComponent(exactFileName)}${hashParam}`, BASE_URL), {
+    method: "POST",
+    ...(options.metadata
+      ? { headers: { "Content-Type": "application/json" }, body: JSON.stringify({ metadata: options.metadata }) }
+      : {}),
+    signal: options.control?.signal,
+  }).catch((e) => {
+    throw options.control?.isCancelled ? new RunCancelledError() : e;
+  });
+  if (!startRes.ok) {
+    throw new Error(`Errore Inizio Upload: ${await readError(startRes)}`);
+  }
+
+  const { uploadId, key } = await startRes.json();
+  const now = Date.now();
+  const session: UploadSession = {
+    id: sessionId,
+    fingerprint: fileFingerprint(file),
+    fileName: exactFileName,
+    baseUrl: BASE_URL,
+    sha256,
+    uploadId,
+    key,
+    size: file.size,
+    chunkSize: CHUNK_SIZE,
+    totalParts: Math.ceil(file.size / CHUNK_SIZE),
+    parts: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  await store?.put(session).catch(() => {});
+
+  return uploadOrAbort(file, session, options);
+}
+
+// Se l'utente annulla, l'upload multipart viene abortito anche sul Worker
+async function uploadOrAbort(file: Blob, session: UploadSession, options: UploadOptions): Promise<string> {
+  try {
+    return await uploadSessionParts(file, session, options);
+  } catch (e) {
+    if (e instanceof RunCancelledError || options.control?.isCancelled) {
+      await abortUploadSession(session, { ...options, control: undefined }).catch(() => {});
+      throw e instanceof RunCancelledError ? e : new RunCancelledError();
+    }
+    throw e;
+  }
+}
+
+async function uploadSessionParts(file: Blob, session: UploadSession, options: UploadOptions): Promise<string> {
+  const BASE_URL = session.baseUrl;
+  const doFetch = options.fetchImpl ?? fetch;
+  const maxRetries = options.retries ?? 3;
+  const retryDelayMs = options.retryDelayMs ?? 1000;
+  const partConcurrency = options.partConcurrency ?? DEFAULT_PART_CONCURRENCY;
+  const store = resolveStore(options);
+
+  const encodedUploadId = encodeURIComponent(session.uploadId);
+  const encodedKey = encodeURIComponent(session.key);
+  const totalChunks = session.totalParts;
+
+  // Fette già confermate in una sessione precedente: si riparte dalla prima mancante
+  const done = new Map<number, unknown>(session.parts.map((p) => [p.partNumber, p.data]));
+  const missing = Array.from({ length: totalChunks }, (_, i) => i).filter((i) => !done.has(i + 1));
+
+  // Avanzamento per fetta (le fette riprese contano come già inviate)
+  const partSize = (i: number) => Math.min(CHUNK_SIZE, file.size - i * CHUNK_SIZE);
+  const chunkLoaded = new Map<number, number>();
+  let lastEmit = 0;
+  const emitProgress = (force = false) => {
+    if (!options.onProgress) return;
+    const now = Date.now();
+    if (!force && now - lastEmit < PROGRESS_THROTTLE_MS) return;
+    lastEmit = now;
+    const parts: ChunkProgress[] = Array.from({ length: totalChunks }, (_, i) => {
+      const partNumber = i + 1;
+      const total = partSize(i);
+      if (done.has(partNumber)) return { partNumber, loaded: total, total, status: "done" };
+      const loaded = chunkLoaded.get(partNumber);
+      return { partNumber, loaded: loaded ?? 0, total, status: loaded === undefined ? "pending" : "uploading" };
+    });
+    options.onProgress({ loaded: parts.reduce((n, p) => n + p.loaded, 0), total: file.size, parts });
+  };
+  emitProgress(true);
+
+  // 2. Invia Fette da 6MB in parallelo (con limite) e Retry Automatico per fetta.
+  // Se una fetta fallisce del tutto, quelle in volo si fermano: la sessione resta per la ripresa
+  await mapWithConcurrency(missing, partConcurrency, async (i, _index, siblingFailed) => {
+    const control = linkRunControl(options.control, siblingFailed);
+    const start = i * CHUNK_SIZE;
+    const end = Math.min(start + CHUNK_SIZE, file.size);
+    const chunk = file.slice(start, end);
+    const partNumber = i + 1;
+
+    let retries = maxRetries; // Ritenta se cade la connessione a metà
+    let lastError = "";
+
+    while (retries > 0) {
+      await control.checkpoint();
+      try {
+        chunkLoaded.set(partNumber, 0);
+        const partRes = await sendPart(
+          backendUrl(`/upload-part?uploadId=${encodedUploadId}&key=${encodedKey}&partNumber=${partNumber}`, BASE_URL),
+          chunk,
+          { ...options, control },
+          (loaded) => {
+            chunkLoaded.set(partNumber, loaded);
+            emitProgress();
+          }
+        );
+
+        if (partRes.status === 404) throw new UploadSessionExpiredError();
+        if (!partRes.ok) {
+          let message = "";
+          try { message = JSON.parse(partRes.text).error; } catch { /* risposta non JSON */ }
+          throw new Error(message || `Codice ${partRes.status}`);
+        }
+
+        const partData = JSON.parse(partRes.text); // Successo
+        done.set(partNumber, partData);
+        session.parts.push({ partNumber, data: partData });
+        session.updatedAt = Date.now();
+        emitProgress(true);
+        await store?.put(session).catch(() => {});
+        return;
+      } catch (e) {
+        if (e instanceof UploadSessionExpiredError || e instanceof RunCancelledError) throw e;
+        control.throwIfCancelled();
+        chunkLoaded.set(partNumber, 0);
+        lastError = e instanceof Error ? e.message : String(e);
+        retries--;
+        if (retries === 0) break;
+        await new Promise(res => setTimeout(res, retryDelayMs)); // Aspetta e riprova
+      }
+    }
+    throw new Error(`Fallito chunk ${partNumber}/${totalChunks}: ${lastError}`);
+  });
+
+  // Lista fette ordinata per partNumber, come richiesto da upload-complete
+  const parts = Array.from({ length: totalChunks }, (_, i) => done.get(i + 1));
+
+  // 3. Completa e Assembla su R2
+  const completeRes = await doFetch(backendUrl(`/upload-complete?uploadId=${encodedUploadId}&key=${encodedKey}`, BASE_URL), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ parts }),
+    signal: options.control?.signal
+  }).catch((e) => {
+    throw options.control?.isCancelled ? new RunCancelledError() : e;
+  });
+
+  if (!completeRes.ok) {
+    throw new Error(`Errore Assemblaggio: ${await readError(completeRes)}`);
+  }
+
+  const finalData = await completeRes.json();
+  await store?.delete(session.id).catch(() => {});
+  if (session.sha256 && finalData.url) {
+    await resolveHashCache(options)?.put(BASE_URL, session.sha256, finalData.url).catch(() => {});
+  }
+  return finalData.url;
+}
+
+/** Annulla sul Worker un upload multipart lasciato a metà e rimuove la sessione locale */
+export async function abortUploadSession(session: UploadSession, options: UploadOptions = {}): Promise<void> {
+  const doFetch = options.fetchImpl ?? fetch;
+  const store = resolveStore(options);
+  const res = await doFetch(
+    backendUrl(`/upload-abort?uploadId=${encodeURIComponent(session.uploadId)}&key=${encodeURIComponent(session.key)}`, session.baseUrl),
+    { method: "POST" }
+  );
+  // 404: l'upload non esiste più sul Worker, resta solo da pulire la sessione locale
+  if (!res.ok && res.status !== 404) {
+    throw new Error(`Errore Annullamento Upload: ${await readError(res)}`);
+  }
+  await store?.delete(session.id);
+}
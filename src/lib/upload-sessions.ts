@@ -0,0 +1,67 @@
+// ==========================================
+// SESSIONI DI UPLOAD RIPRENDIBILI (IndexedDB)
+// Ogni upload multipart salva uploadId, key e le fette già confermate,
+// così dopo un reload o un calo di rete si riparte dalla prima fetta mancante.
+// ==========================================
+
+import { hasIndexedDb, UPLOAD_SESSIONS_STORE as STORE, withStore } from "@/lib/local-db";
+
+export type UploadedPart = {
+  partNumber: number;
+  /** risposta di upload-part (contiene l'ETag) inviata tale e quale a upload-complete */
+  data: unknown;
+};
+
+export type UploadSession = {
+  /** fingerprint + nome file + backend */
+  id: string;
+  fingerprint: string;
+  fileName: string;
+  baseUrl: string;
+  /** SHA-256 del contenuto, per la cache di deduplica a upload completato */
+  sha256?: string;
+  uploadId: string;
+  key: string;
+  size: number;
+  chunkSize: number;
+  totalParts: number;
+  parts: UploadedPart[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+export interface UploadSessionStore {
+  get(id: string): Promise<UploadSession | undefined>;
+  put(session: UploadSession): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<UploadSession[]>;
+}
+
+/** Identifica un file locale senza leggerne il contenuto */
+export function fileFingerprint(file: Blob): string {
+  const f = file as Partial<File>;
+  return `${f.name ?? "blob"}:${file.size}:${f.lastModified ?? 0}`;
+}
+
+export function uploadSessionId(fingerprint: string, fileName: string, baseUrl: string): string {
+  return `${fingerprint}|${fileName}|${baseUrl}`;
+}
+
+export const indexedDbSessionStore: UploadSessionStore = {
+  get: (id) => withStore<UploadSession | undefined>(STORE, "readonly", (s) => s.get(id)),
+  put: async (session) => {
+    await withStore(STORE, "readwrite", (s) => s.put(session));
+  },
+  delete: async (id) => {
+    await withStore(STORE, "readwrite", (s) => s.delete(id));
+  },
+  list: async () => {
+    const all = await withStore<UploadSession[]>(STORE, "readonly", (s) => s.getAll());
+    return all.sort((a, b) => b.updatedAt - a.updatedAt);
+  },
+};
+
+/** Store predefinito: IndexedDB nel browser, nessuna persistenza altrove */
+export function getDefaultSessionStore(): UploadSessionStore | undefined {
+  return hasIndexedDb() ? indexedDbSessionStore : undefined;
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { getUpscaler, resampleLanczos, unsharpMask } from "@/lib/upscaler";
+
+const solid = (width: number, height: number, value: number) => ({
+  width,
+  height,
+  data: new Uint8ClampedArray(width * height * 4).fill(value),
+});
+
+describe("resampleLanczos", () => {
+  it("ingrandisce alle dimensioni richieste senza alterare un colore uniforme", () => {
+    const out = resampleLanczos(solid(4, 2, 100), { width: 10, height: 5 });
+    expect(out.width).toBe(10);
+    expect(out.height).toBe(5);
+    expect(new Set(out.data)).toEqual(new Set([100]));
+  });
+
+  it("in riduzione fa la media", () => {
+    const src = solid(2, 1, 0);
+    src.data.set([255, 255, 255, 255], 0);
+    const out = resampleLanczos(src, { width: 1, height: 1 });
+    expect(out.data[0]).toBeGreaterThan(100);
+    expect(out.data[0]).toBeLessThan(155);
+  });
+});
+
+describe("unsharpMask", () => {
+  it("non cambia le aree uniformi", () => {
+    expect(new Set(unsharpMask(solid(3, 3, 80)).data)).toEqual(new Set([80]));
+  });
+});
+
+describe("registro", () => {
+  it("ha Lanczos come default e rifiuta id sconosciuti", () => {
+    expect(getUpscaler().id).toBe("lanczos");
+    expect(() => getUpscaler("nope")).toThrow();
+  });
+});
@@ -0,0 +1,158 @@
+// ==========================================
+// UPSCALER
+// Interfaccia per gli algoritmi di ingrandimento + registro. Quello integrato è CPU puro:
+// ricampionamento Lanczos-3 separabile seguito da una maschera di contrasto leggera.
+// Gira dentro il Web Worker: un upscaler aggiuntivo (es. modello ONNX) va registrato
+// in un modulo importato anche dal worker, altrimenti lì non esiste.
+// ==========================================
+
+import type { PixelSize } from "@/lib/image-fit";
+
+/** Pixel RGBA non premoltiplicati, riga per riga (come ImageData) */
+export type RgbaImage = { width: number; height: number; data: Uint8ClampedArray };
+
+export interface Upscaler {
+  id: string;
+  label: string;
+  /** Ridimensiona `source` esattamente a `target`; può essere asincrono (modelli, GPU) */
+  upscale(source: RgbaImage, target: PixelSize): RgbaImage | Promise<RgbaImage>;
+}
+
+const LANCZOS_LOBES = 3;
+
+function lanczos(x: number): number {
+  if (x === 0) return 1;
+  if (x <= -LANCZOS_LOBES || x >= LANCZOS_LOBES) return 0;
+  const px = Math.PI * x;
+  return (LANCZOS_LOBES * Math.sin(px) * Math.sin(px / LANCZOS_LOBES)) / (px * px);
+}
+
+type Taps = { first: Int32Array; weights: Float32Array; size: number };
+
+/** Pesi normalizzati per ogni pixel di destinazione lungo un asse (bordi replicati) */
+function computeTaps(srcLength: number, dstLength: number): Taps {
+  const ratio = srcLength / dstLength;
+  // in riduzione il filtro si allarga, altrimenti resta a 3 lobi
+  const stretch = Math.max(1, ratio);
+  const support = LANCZOS_LOBES * stretch;
+  const size = Math.ceil(support) * 2 + 1;
+  const first = new Int32Array(dstLength);
+  const weights = new Float32Array(dstLength * size);
+
+  for (let i = 0; i < dstLength; i++) {
+    const center = (i + 0.5) * ratio - 0.5;
+    const start = Math.floor(center - support) + 1;
+    first[i] = start;
+    let sum = 0;
+    for (let k = 0; k < size; k++) {
+      const w = lanczos((start + k - center) / stretch);
+      weights[i * size + k] = w;
+      sum += w;
+    }
+    for (let k = 0; k < size; k++) weights[i * size + k] /= sum || 1;
+  }
+  return { first, weights, size };
+}
+
+const clampIndex = (i: number, length: number) => (i < 0 ? 0 : i >= length ? length - 1 : i);
+
+/** Ricampionamento Lanczos-3: prima orizzontale, poi verticale */
+export function resampleLanczos(source: RgbaImage, target: PixelSize): RgbaImage {
+  const { width: sw, height: sh, data: src } = source;
+  const { width: dw, height: dh } = target;
+
+  const horizontal = computeTaps(sw, dw);
+  const mid = new Uint8ClampedArray(dw * sh * 4);
+  for (let y = 0; y < sh; y++) {
+    const row = y * sw * 4;
+    for (let x = 0; x < dw; x++) {
+      let r = 0, g = 0, b = 0, a = 0;
+      const base = x * horizontal.size;
+      for (let k = 0; k < horizontal.size; k++) {
+        const w = horizontal.weights[base + k];
+        if (w === 0) continue;
+        const p = row + clampIndex(horizontal.first[x] + k, sw) * 4;
+        r += src[p] * w;
+        g += src[p + 1] * w;
+        b += src[p + 2] * w;
+        a += src[p + 3] * w;
+      }
+      const o = (y * dw + x) * 4;
+      mid[o] = r;
+      mid[o + 1] = g;
+      mid[o + 2] = b;
+      mid[o + 3] = a;
+    }
+  }
+
+  const vertical = computeTaps(sh, dh);
+  const out = new Uint8ClampedArray(dw * dh * 4);
+  const acc = new Float32Array(dw * 4);
+  for (let y = 0; y < dh; y++) {
+    acc.fill(0);
+    const base = y * vertical.size;
+    for (let k = 0; k < vertical.size; k++) {
+      const w = vertical.weights[base + k];
+      if (w === 0) continue;
+      const row = clampIndex(vertical.first[y] + k, sh) * dw * 4;
+      for (let i = 0; i < dw * 4; i++) acc[i] += mid[row + i] * w;
+    }
+    out.set(acc, y * dw * 4);
+  }
+  return { width: dw, height: dh, data: out };
+}
+
+/**
+ * Maschera di contrasto 3×3 in place (sfocatura gaussiana [1 2 1]): recupera parte della
+ * nitidezza persa ingrandendo. L'alpha non viene toccato.
+ */
+export function unsharpMask(image: RgbaImage, amount = 0.6): RgbaImage {
+  const { width, height, data } = image;
+  const stride = width * 4;
+  const above = data.slice(0, stride);
+  const current = new Uint8ClampedArray(stride);
+  const sharpened = new Uint8ClampedArray(stride);
+
+  for (let y = 0; y < height; y++) {
+    current.set(data.subarray(y * stride, (y + 1) * stride));
+    const below = y + 1 < height ? data.subarray((y + 1) * stride, (y + 2) * stride) : current;
+    for (let x = 0; x < width; x++) {
+      const l = Math.max(0, x - 1) * 4;
+      const c = x * 4;
+      const r = Math.min(width - 1, x + 1) * 4;
+      for (let ch = 0; ch < 3; ch++) {
+        const up = above[l + ch] + 2 * above[c + ch] + above[r + ch];
+        const mid = current[l + ch] + 2 * current[c + ch] + current[r + ch];
+        const down = below[l + ch] + 2 * below[c + ch] + below[r + ch];
+        const blur = (up + 2 * mid + down) / 16;
+        sharpened[c + ch] = current[c + ch] + amount * (current[c + ch] - blur);
+      }
+      sharpened[c + 3] = current[c + 3];
+    }
+    data.set(sharpened, y * stride);
+    above.set(current);
+  }
+  return image;
+}
+
+export const lanczosUpscaler: Upscaler = {
+  id: "lanczos",
+  label: "Lanczos + nitidezza (CPU)",
+  upscale: (source, target) => unsharpMask(resampleLanczos(source, target)),
+};
+
+export const DEFAULT_UPSCALER_ID = lanczosUpscaler.id;
+
+const registry = new Map<string, Upscaler>([[lanczosUpscaler.id, lanczosUpscaler]]);
+
+export function registerUpscaler(upscaler: Upscaler) {
+  registry.set(upscaler.id, upscaler);
+}
+
+export function getUpscaler(id: string = DEFAULT_UPSCALER_ID): Upscaler {
+  const upscaler = registry.get(id);
+  if (!upscaler) throw new Error(`Upscaler "${id}" non registrato`);
+  return upscaler;
+}
+
+export const listUpscalers = () => [...registry.values()];
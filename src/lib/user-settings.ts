@@ -0,0 +1,80 @@
+// ==========================================
+// IMPOSTAZIONI PER UTENTE
+// Tabella user_settings (RLS, solo le proprie righe): preset delle regole per store,
+// tabella ratio e abbondanza per store e template. Prima vivevano in localStorage:
+// il valore locale dello stesso store viene importato la prima volta e rimosso dal browser.
+// ==========================================
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+export type UserSettingKind = "rules_preset" | "ratio_rules" | "bleed";
+
+/** Ritardo dei salvataggi dagli editor, che cambiano a ogni tasto */
+const SAVE_DELAY_MS = 600;
+
+const pendingSaves = new Map<string, ReturnType<typeof setTimeout>>();
+
+function readLocal(key: string): unknown {
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? "null");
+  } catch {
+    return null; // valore corrotto o storage non disponibile
+  }
+}
+
+function removeLocal(key: string) {
+  try {
+    localStorage.removeItem(key);
+  } catch { /* storage non disponibile */ }
+}
+
+/**
+ * Valore salvato dall'utente, null se non ce n'è uno.
+ * `localKey`: chiave localStorage (già per store) del valore salvato prima della tabella.
+ */
+export async function loadUserSetting(
+  kind: UserSettingKind,
+  storeId: string,
+  templateId = "",
+  localKey?: string
+): Promise<unknown> {
+  const { data, error } = await supabase
+    .from("user_settings")
+    .select("value")
+    .eq("kind", kind)
+    .eq("store_id", storeId)
+    .eq("template_id", templateId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (data) return data.value;
+
+  const local = localKey ? readLocal(localKey) : null;
+  if (local === null) return null;
+  await saveUserSetting(kind, storeId, templateId, local);
+  removeLocal(localKey);
+  return local;
+}
+
+export async function saveUserSetting(kind: UserSettingKind, storeId: string, templateId: string, value: unknown): Promise<void> {
+  const { error } = await supabase
+    .from("user_settings")
+    .upsert(
+      { kind, store_id: storeId, template_id: templateId, value: value as Json, updated_at: new Date().toISOString() },
+      { onConflict: "user_id,store_id,kind,template_id" }
+    );
+  if (error) throw new Error(error.message);
+}
+
+/** Come saveUserSetting, ma accorpa le modifiche ravvicinate: vale l'ultima */
+export function saveUserSettingLater(kind: UserSettingKind, storeId: string, templateId: string, value: unknown) {
+  const key = `${kind}|${storeId}|${templateId}`;
+  clearTimeout(pendingSaves.get(key));
+  pendingSaves.set(
+    key,
+    setTimeout(() => {
+      pendingSaves.delete(key);
+      saveUserSetting(kind, storeId, templateId, value).catch((e) => console.warn(`[settings] Cannot save ${kind}:`, e));
+    }, SAVE_DELAY_MS)
+  );
+}
@@ -1,8 +1,13 @@
 import React from "react";
 import { BulkCreator } from "@/components/bulk-creator";
+import { SignIn } from "@/components/sign-in";
+import { useSession } from "@/hooks/use-session";
+import { Loader2 } from "lucide-react";
 import heroImage from "@/assets/gelato-hero.jpg";
 
 const Index = () => {
+  const { session, loading } = useSession();
+
   return (
     <div className="min-h-screen bg-background">
       {/* Hero Section */}
@@ -63,7 +68,16 @@ const Index = () => {
           </p>
         </div>
         
-        <BulkCreator />
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : session ? (
+          // key: cambiando utente lo stato del wizard riparte da zero
+          <BulkCreator key={session.user.id} userEmail={session.user.email} />
+        ) : (
+          <SignIn />
+        )}
       </section>
     </div>
   );
@@ -0,0 +1,5 @@
+import { vi } from "vitest";
+
+// I test girano in Node, senza localStorage: il client Supabase (che lo usa per la sessione)
+// non serve alle funzioni pure, che lo importano solo attraverso i moduli di salvataggio.
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
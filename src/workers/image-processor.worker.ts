@@ -0,0 +1,29 @@
+// Web Worker: decodifica, adattamento, upscaling e ricodifica fuori dal main thread
+import {
+  processImageFile,
+  renderUpscalePreview,
+  type ProcessImageRequest,
+  type ProcessImageResult,
+  type UpscalePreviewRequest,
+  type UpscalePreviewResult,
+} from "@/lib/image-fit";
+
+export type ImageWorkerRequest =
+  | { id: number; kind: "process"; file: Blob; request: ProcessImageRequest }
+  | { id: number; kind: "preview"; file: Blob; request: UpscalePreviewRequest };
+export type ImageWorkerResponse = { id: number; result: ProcessImageResult | UpscalePreviewResult } | { id: number; error: string };
+
+self.addEventListener("message", async (event: MessageEvent<ImageWorkerRequest>) => {
+  const message = event.data;
+  let response: ImageWorkerResponse;
+  try {
+    const result =
+      message.kind === "preview"
+        ? await renderUpscalePreview(message.file, message.request)
+        : await processImageFile(message.file, message.request);
+    response = { id: message.id, result };
+  } catch (e) {
+    response = { id: message.id, error: e instanceof Error ? e.message : String(e) };
+  }
+  self.postMessage(response);
+});
@@ -0,0 +1,39 @@
+import type { AdminClient } from "./supabase-admin.ts";
+import { errorResponse } from "./errors.ts";
+
+// Utente Supabase Auth della richiesta e accesso ai workspace (utente + team).
+// verify_jwt lascia passare anche la anon key: qui si pretende un utente vero.
+
+/** Utente dal bearer token, null se la richiesta usa solo la anon key */
+export async function getRequestUserId(db: AdminClient, req: Request): Promise<string | null> {
+  const token = (req.headers.get("Authorization") ?? "").replace(/^Bearer\s+/i, "");
+  if (!token) return null;
+  const { data, error } = await db.auth.getUser(token);
+  return error ? null : data.user?.id ?? null;
+}
+
+/** true se owner è viewer o un membro di uno dei suoi team */
+export async function sharesWorkspace(db: AdminClient, owner: string | null, viewer: string): Promise<boolean> {
+  if (!owner) return false;
+  if (owner === viewer) return true;
+  const { data, error } = await db.rpc("shares_workspace", { owner, viewer });
+  if (error) throw new Error(`Cannot check workspace access: ${error.message}`);
+  return data === true;
+}
+
+/** Utenti di cui viewer vede le righe: sé stesso e i membri dei suoi team */
+export async function workspaceUserIds(db: AdminClient, viewer: string): Promise<string[]> {
+  const { data: teams, error } = await db.from("team_members").select("team_id").eq("user_id", viewer);
+  if (error) throw new Error(`Cannot read teams: ${error.message}`);
+  if (!teams.length) return [viewer];
+  const { data: members, error: membersError } = await db
+    .from("team_members")
+    .select("user_id")
+    .in("team_id", teams.map((t) => t.team_id));
+  if (membersError) throw new Error(`Cannot read team members: ${membersError.message}`);
+  return [...new Set([viewer, ...members.map((m) => m.user_id as string)])];
+}
+
+export function unauthorizedResponse(headers: Record<string, string>): Response {
+  return errorResponse(headers, 401, "unauthorized", "Sign in to use this endpoint");
+}
@@ -0,0 +1,158 @@
+import { z } from "zod";
+
+// Schemi condivisi tra edge function (Deno, via import map) e client (src/lib/bulk-schemas.ts).
+// Nessuna dipendenza da Deno o dal DOM: questo file deve restare isomorfo.
+
+export const ProductVariantSchema = z.object({
+  templateVariantId: z.string().min(1),
+  imagePlaceholders: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        fileUrl: z.string().url(),
+      }),
+    )
+    .min(1),
+});
+
+export const ProductRequestSchema = z.object({
+  title: z.string().trim().min(1).max(255),
+  description: z.string().default(""),
+  tags: z.array(z.string().min(1)).default([]),
+  variants: z.array(ProductVariantSchema).min(1),
+  /** hash di template + titolo base + file: la stessa chiave non crea due prodotti */
+  idempotencyKey: z.string().regex(/^[0-9a-f]{64}$/, "Expected a hex SHA-256").optional(),
+});
+
+export const MAX_PRODUCTS_PER_REQUEST = 500;
+
+export const BulkCreateRequestSchema = z.object({
+  templateId: z.string().uuid(),
+  /** false = bozza: prodotto non visibile e senza canali di vendita */
+  publish: z.boolean(),
+  products: z.array(ProductRequestSchema).min(1).max(MAX_PRODUCTS_PER_REQUEST),
+  /** store di destinazione; se presente deve coincidere con quello della connessione */
+  storeId: z.string().trim().min(1).optional(),
+  /** canali su cui pubblicare (solo con publish) */
+  salesChannels: z.array(z.string().trim().toLowerCase().min(1)).optional(),
+  /** prodotti creati in parallelo */
+  concurrency: z.number().int().min(1).max(10).optional(),
+  /** connessione salvata in store_connections: chiave API e store vengono solo da lì */
+  connectionId: z.string().uuid(),
+});
+
+/**
+ * La stessa richiesta prima degli upload: i prodotti hanno solo titolo, descrizione e tag,
+ * così numero di prodotti e titoli troppo lunghi emergono prima di caricare i file.
+ */
+export const PlannedBulkRequestSchema = BulkCreateRequestSchema.extend({
+  products: z
+    .array(ProductRequestSchema.pick({ title: true, description: true, tags: true }))
+    .min(1)
+    .max(MAX_PRODUCTS_PER_REQUEST),
+});
+
+export const TemplateRequestSchema = z.object({
+  templateId: z.string().uuid(),
+  connectionId: z.string().uuid(),
+});
+
+export const JobStatusRequestSchema = z.object({ jobId: z.string().uuid() });
+
+export const VerifyRequestSchema = z.object({
+  apiKey: z.string().trim().min(1),
+  storeId: z.string().trim().min(1),
+});
+
+/** Metadati dello store restituiti da gelato-verify e con la connessione da gelato-connections */
+export const StoreInfoSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  currency: z.string().optional(),
+  platform: z.string().optional(),
+  salesChannels: z.array(z.string()),
+});
+
+export type StoreInfo = z.infer<typeof StoreInfoSchema>;
+
+export const ConnectionIdSchema = z.object({ connectionId: z.string().uuid() });
+
+export const RotateKeyRequestSchema = z.object({
+  connectionId: z.string().uuid(),
+  apiKey: z.string().trim().min(1),
+});
+
+/** Connessione salvata come la vede il client: mai la chiave, solo un suffisso per riconoscerla */
+export const StoreConnectionInfoSchema = z.object({
+  id: z.string().uuid(),
+  store: StoreInfoSchema,
+  keyHint: z.string(),
+  createdAt: z.string(),
+  rotatedAt: z.string().optional(),
+});
+
+export type StoreConnectionInfo = z.infer<typeof StoreConnectionInfoSchema>;
+
+export type ProductVariantInput = z.infer<typeof ProductVariantSchema>;
+export type ProductRequestInput = z.infer<typeof ProductRequestSchema>;
+export type BulkCreateRequestInput = z.infer<typeof BulkCreateRequestSchema>;
+
+// ------------------------------------------
+// ENVELOPE DEGLI ERRORI: { error: { code, message, fields? } }
+// ------------------------------------------
+
+export type ApiErrorCode =
+  | "invalid_json"
+  | "unauthorized"
+  | "validation_failed"
+  | "invalid_credentials"
+  | "store_not_found"
+  | "store_unavailable"
+  | "channel_unavailable"
+  | "not_found"
+  | "upstream_error"
+  | "misconfigured"
+  | "internal_error";
+
+export interface ApiFieldError {
+  /** es. products[0].variants[1].templateVariantId */
+  path: string;
+  /** codice zod (invalid_type, too_small, invalid_string, ...) */
+  code: string;
+  message: string;
+}
+
+export interface ApiError {
+  code: ApiErrorCode;
+  message: string;
+  fields?: ApiFieldError[];
+}
+
+export interface ApiErrorEnvelope {
+  error: ApiError;
+}
+
+export function formatIssuePath(path: Array<string | number>): string {
+  return path.reduce<string>((acc, part) => (typeof part === "number" ? `${acc}[${part}]` : acc ? `${acc}.${part}` : part), "");
+}
+
+export function toFieldErrors(error: z.ZodError): ApiFieldError[] {
+  return error.issues.map((issue) => ({ path: formatIssuePath(issue.path) || "(root)", code: issue.code, message: issue.message }));
+}
+
+export function validationError(error: z.ZodError, message = "Request validation failed"): ApiError {
+  return { code: "validation_failed", message, fields: toFieldErrors(error) };
+}
+
+/** Messaggio leggibile da una risposta di errore, sia nel formato envelope sia nel vecchio `{ error: string }` */
+export function apiErrorMessage(body: unknown, fallback = "Errore sconosciuto"): string {
+  const error = (body as { error?: unknown } | null)?.error;
+  if (typeof error === "string") return error;
+  if (error && typeof error === "object" && "message" in error) {
+    const { message, fields } = error as ApiError;
+    if (!fields?.length) return message;
+    const details = fields.slice(0, 3).map((f) => `${f.path}: ${f.message}`).join("; ");
+    return `${message} — ${details}${fields.length > 3 ? ` (+${fields.length - 3})` : ""}`;
+  }
+  return fallback;
+}
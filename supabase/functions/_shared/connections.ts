@@ -0,0 +1,64 @@
+import type { AdminClient } from "./supabase-admin.ts";
+import type { StoreConnectionInfo } from "./bulk-schemas.ts";
+import { openSecret } from "./secret-box.ts";
+import { sharesWorkspace } from "./auth.ts";
+
+// Connessioni salvate in store_connections: metadati pubblici e chiave API decifrata
+
+export const CONNECTION_COLUMNS =
+  "id, user_id, store_id, store_name, currency, platform, sales_channels, key_ciphertext, key_iv, key_hint, created_at, rotated_at";
+
+export interface ConnectionRow {
+  id: string;
+  user_id: string;
+  store_id: string;
+  store_name: string;
+  currency: string | null;
+  platform: string | null;
+  sales_channels: string[];
+  key_ciphertext: string;
+  key_iv: string;
+  key_hint: string;
+  created_at: string;
+  rotated_at: string | null;
+}
+
+export function toConnectionInfo(row: ConnectionRow): StoreConnectionInfo {
+  return {
+    id: row.id,
+    store: {
+      id: row.store_id,
+      name: row.store_name,
+      currency: row.currency ?? undefined,
+      platform: row.platform ?? undefined,
+      salesChannels: row.sales_channels ?? [],
+    },
+    keyHint: row.key_hint,
+    createdAt: row.created_at,
+    rotatedAt: row.rotated_at ?? undefined,
+  };
+}
+
+/**
+ * Connessione visibile all'utente: sua o di un membro del suo team.
+ * Una riga senza proprietario non è di nessuno: conoscerne l'id non basta per usarla.
+ */
+export async function findConnection(db: AdminClient, connectionId: string, userId: string): Promise<ConnectionRow | null> {
+  const { data, error } = await db.from("store_connections").select(CONNECTION_COLUMNS).eq("id", connectionId).maybeSingle();
+  if (error) throw new Error(`Cannot read connection: ${error.message}`);
+  const row = data as ConnectionRow | null;
+  if (!row?.user_id) return null;
+  return (await sharesWorkspace(db, row.user_id, userId)) ? row : null;
+}
+
+/** Chiave API e store di una connessione, per le chiamate a Gelato */
+export async function resolveConnectionCredentials(
+  db: AdminClient,
+  connectionId: string,
+  userId: string,
+): Promise<{ apiKey: string; storeId: string; connection: ConnectionRow } | null> {
+  const connection = await findConnection(db, connectionId, userId);
+  if (!connection) return null;
+  const apiKey = await openSecret({ ciphertext: connection.key_ciphertext, iv: connection.key_iv }, connection.store_id);
+  return { apiKey, storeId: connection.store_id, connection };
+}
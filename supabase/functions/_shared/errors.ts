@@ -0,0 +1,29 @@
+import type { z } from "zod";
+import { validationError, type ApiError, type ApiErrorCode, type ApiFieldError } from "./bulk-schemas.ts";
+
+// Risposte di errore nel formato envelope comune a tutte le edge function
+
+export function errorResponse(
+  headers: Record<string, string>,
+  status: number,
+  code: ApiErrorCode,
+  message: string,
+  fields?: ApiFieldError[],
+): Response {
+  const error: ApiError = fields?.length ? { code, message, fields } : { code, message };
+  return new Response(JSON.stringify({ error }), { status, headers: { ...headers, "Content-Type": "application/json" } });
+}
+
+export function validationErrorResponse(headers: Record<string, string>, error: z.ZodError): Response {
+  const { code, message, fields } = validationError(error);
+  return errorResponse(headers, 400, code, message, fields);
+}
+
+/** Body JSON della richiesta, oppure undefined se assente o non valido */
+export async function readJsonBody(req: Request): Promise<unknown> {
+  try {
+    return await req.json();
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { gelatoFetch, parseRetryAfter } from "./gelato-fetch.ts";
+
+const post = { method: "POST", body: "{}" };
+const fast = { baseDelayMs: 1, maxDelayMs: 1 };
+
+function stubFetch(...responses: Array<Response | Error>) {
+  const fetchMock = vi.fn(async () => {
+    const next = responses.shift();
+    if (!next) throw new Error("nessuna risposta prevista");
+    if (next instanceof Error) throw next;
+    return next;
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("gelatoFetch", () => {
+  it("ripete il 429 anche per le POST", async () => {
+    const fetchMock = stubFetch(new Response("", { status: 429 }), new Response("{}", { status: 201 }));
+    const { response, attempts } = await gelatoFetch("https://gelato.test", post, fast);
+    expect(response.status).toBe(201);
+    expect(attempts).toBe(2);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("ripete 5xx ed errori di rete per le GET", async () => {
+    stubFetch(new Error("reset"), new Response("", { status: 503 }), new Response("{}"));
+    const { response, attempts } = await gelatoFetch("https://gelato.test", {}, fast);
+    expect(response.status).toBe(200);
+    expect(attempts).toBe(3);
+  });
+
+  it("senza controllo non ripete una POST dopo un 5xx", async () => {
+    const fetchMock = stubFetch(new Response("", { status: 502 }));
+    const { response } = await gelatoFetch("https://gelato.test", post, fast);
+    expect(response.status).toBe(502);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("ripete una POST fallita se il controllo non trova il risultato", async () => {
+    const checkBeforeRetry = vi.fn(async () => undefined);
+    const fetchMock = stubFetch(new Response("", { status: 500 }), new Error("reset"), new Response("{}", { status: 201 }));
+    const { response, attempts } = await gelatoFetch("https://gelato.test", post, { ...fast, checkBeforeRetry });
+    expect(response.status).toBe(201);
+    expect(attempts).toBe(3);
+    expect(checkBeforeRetry).toHaveBeenCalledTimes(2);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it("restituisce il risultato trovato dal controllo invece di ripetere", async () => {
+    const created = new Response(JSON.stringify({ id: "p1" }), { status: 201 });
+    const fetchMock = stubFetch(new Error("reset"));
+    const { response } = await gelatoFetch("https://gelato.test", post, { ...fast, checkBeforeRetry: async () => created });
+    expect(await response.json()).toEqual({ id: "p1" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("se il controllo fallisce non ripete", async () => {
+    const fetchMock = stubFetch(new Response("", { status: 500 }));
+    const { response } = await gelatoFetch("https://gelato.test", post, {
+      ...fast,
+      checkBeforeRetry: async () => {
+        throw new Error("list failed");
+      },
+    });
+    expect(response.status).toBe(500);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("riporta i tentativi anche quando la rete fallisce fino all'ultimo", async () => {
+    stubFetch(new Error("reset"), new Error("reset"));
+    await expect(gelatoFetch("https://gelato.test", {}, { ...fast, maxAttempts: 2 })).rejects.toMatchObject({ attempts: 2 });
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("legge secondi e date HTTP", () => {
+    expect(parseRetryAfter("3")).toBe(3000);
+    expect(parseRetryAfter(new Date(Date.now() - 1000).toUTCString())).toBe(0);
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
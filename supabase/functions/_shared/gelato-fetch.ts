@@ -0,0 +1,108 @@
+// Fetch verso le API Gelato con retry:
+// - 429: attende Retry-After (secondi o data HTTP), altrimenti backoff
+// - 5xx ed errori di rete: backoff esponenziale con jitter
+// - 4xx (tranne 429): nessun retry, la risposta torna al chiamante
+// Una POST fallita con 5xx o a metà connessione può essere già stata eseguita: ripeterla
+// creerebbe un secondo prodotto. Le richieste non idempotenti si ripetono quindi solo dopo
+// `checkBeforeRetry`, che cerca il risultato della richiesta fallita; senza controllo si
+// ripete solo il 429, che Gelato rifiuta prima di eseguire.
+
+export interface RetryOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** default: true per GET, HEAD, OPTIONS, PUT e DELETE */
+  idempotent?: boolean;
+  /**
+   * Solo richieste non idempotenti: prima di ripetere dopo un 5xx o un errore di rete controlla
+   * se la richiesta fallita è stata eseguita lo stesso. Una risposta trovata viene restituita al
+   * posto di un nuovo tentativo; undefined = nulla è stato eseguito, si riprova. Se il controllo
+   * fallisce non si riprova: l'esito del tentativo fallito torna al chiamante.
+   */
+  checkBeforeRetry?: () => Promise<Response | undefined>;
+}
+
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
+export interface GelatoFetchResult {
+  response: Response;
+  attempts: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 30_000;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** Backoff esponenziale "full jitter": random tra 0 e base * 2^tentativo */
+export function backoffDelay(attempt: number, baseDelayMs = DEFAULT_BASE_DELAY_MS, maxDelayMs = DEFAULT_MAX_DELAY_MS): number {
+  const cap = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * cap);
+}
+
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export async function gelatoFetch(url: string, init: RequestInit, options: RetryOptions = {}): Promise<GelatoFetchResult> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const idempotent = options.idempotent ?? IDEMPOTENT_METHODS.includes((init.method ?? "GET").toUpperCase());
+  const { checkBeforeRetry } = options;
+
+  /**
+   * Dopo un 5xx o un errore di rete di una richiesta non idempotente: la risposta della richiesta
+   * già eseguita, "retry" se si può ripetere, "stop" se il controllo manca o è fallito.
+   */
+  const checkPrevious = async (): Promise<Response | "retry" | "stop"> => {
+    if (idempotent) return "retry";
+    if (!checkBeforeRetry) return "stop";
+    try {
+      return (await checkBeforeRetry()) ?? "retry";
+    } catch (err) {
+      console.warn("[gelato-fetch] check before retry failed, not retrying:", err);
+      return "stop";
+    }
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (err) {
+      const previous = await checkPrevious();
+      if (previous instanceof Response) return { response: previous, attempts: attempt };
+      // il chiamante legge `attempts` anche quando la rete fallisce fino all'ultimo tentativo
+      if (previous === "stop" || attempt >= maxAttempts) {
+        throw Object.assign(err instanceof Error ? err : new Error(String(err)), { attempts: attempt });
+      }
+      console.warn(`[gelato-fetch] network error (attempt ${attempt}/${maxAttempts}):`, err);
+      await sleep(backoffDelay(attempt, baseDelayMs, maxDelayMs));
+      continue;
+    }
+
+    if (response.status >= 500) {
+      const previous = await checkPrevious();
+      if (previous instanceof Response) {
+        await response.body?.cancel();
+        return { response: previous, attempts: attempt };
+      }
+      if (previous === "stop") return { response, attempts: attempt };
+    } else if (response.status !== 429) {
+      return { response, attempts: attempt };
+    }
+    if (attempt >= maxAttempts) return { response, attempts: attempt };
+
+    const retryAfter = response.status === 429 ? parseRetryAfter(response.headers.get("Retry-After")) : undefined;
+    const delay = Math.min(retryAfter ?? backoffDelay(attempt, baseDelayMs, maxDelayMs), maxDelayMs);
+    console.warn(`[gelato-fetch] ${response.status} (attempt ${attempt}/${maxAttempts}), retrying in ${delay}ms`);
+    await response.body?.cancel();
+    await sleep(delay);
+  }
+}
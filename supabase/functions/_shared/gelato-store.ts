@@ -0,0 +1,75 @@
+import { gelatoFetch } from "./gelato-fetch.ts";
+import { errorResponse } from "./errors.ts";
+import type { StoreInfo } from "./bulk-schemas.ts";
+
+// Store Gelato raggiungibile con la chiave configurata e canali di vendita che espone
+
+export interface GelatoStore {
+  id: string;
+  name?: string;
+  currency?: string;
+  platform?: string;
+  salesChannels?: string[];
+  [field: string]: unknown;
+}
+
+export type StoreLookup =
+  | { ok: true; store: GelatoStore }
+  | { ok: false; status: number; message: string };
+
+/** Il canale "web" (negozio online Gelato) è sempre disponibile */
+export const DEFAULT_SALES_CHANNEL = "web";
+
+export async function fetchGelatoStore(storeId: string, apiKey: string): Promise<StoreLookup> {
+  const { response } = await gelatoFetch(
+    `https://ecommerce.gelatoapis.com/v1/stores/${encodeURIComponent(storeId)}`,
+    { headers: { Authorization: `Bearer ${apiKey}`, Accept: "application/json" } },
+    { maxAttempts: 3 },
+  );
+  if (!response.ok) {
+    const raw = await response.text().catch(() => "");
+    let message = raw;
+    try {
+      message = JSON.parse(raw).message || raw;
+    } catch { /* risposta non JSON */ }
+    return { ok: false, status: response.status, message };
+  }
+  const store = await response.json();
+  return { ok: true, store: { ...store, id: store.id ?? storeId } };
+}
+
+/** Canali accettati dallo store: quelli dichiarati da Gelato, la piattaforma collegata e "web" */
+export function storeSalesChannels(store: GelatoStore): string[] {
+  const channels = new Set<string>([DEFAULT_SALES_CHANNEL]);
+  (Array.isArray(store.salesChannels) ? store.salesChannels : []).forEach((c) => channels.add(String(c).toLowerCase()));
+  if (typeof store.platform === "string" && store.platform) channels.add(store.platform.toLowerCase());
+  return [...channels];
+}
+
+export function toStoreInfo(store: GelatoStore): StoreInfo {
+  return {
+    id: store.id,
+    name: store.name || store.id,
+    currency: typeof store.currency === "string" ? store.currency : undefined,
+    platform: typeof store.platform === "string" ? store.platform : undefined,
+    salesChannels: storeSalesChannels(store),
+  };
+}
+
+/** Errore specifico per una verifica chiave/store fallita */
+export function storeLookupErrorResponse(headers: Record<string, string>, storeId: string, lookup: { status: number; message: string }): Response {
+  console.warn(`[store] Gelato answered ${lookup.status} for ${storeId}: ${lookup.message}`);
+  if (lookup.status === 401) return errorResponse(headers, 401, "invalid_credentials", "The API key was rejected by Gelato");
+  if (lookup.status === 403) return errorResponse(headers, 403, "invalid_credentials", `The API key has no access to store ${storeId}`);
+  if (lookup.status === 404) return errorResponse(headers, 404, "store_not_found", `Store ${storeId} does not exist`);
+  return errorResponse(headers, 502, "upstream_error", `Gelato API error ${lookup.status}: ${lookup.message}`);
+}
+
+export type StoreVerification = { ok: true; store: StoreInfo } | { ok: false; response: Response };
+
+/** Verifica chiave + store su Gelato: usata da gelato-verify e da gelato-connections prima di salvare */
+export async function verifyStoreCredentials(headers: Record<string, string>, storeId: string, apiKey: string): Promise<StoreVerification> {
+  const lookup = await fetchGelatoStore(storeId, apiKey);
+  if (!lookup.ok) return { ok: false, response: storeLookupErrorResponse(headers, storeId, lookup) };
+  return { ok: true, store: toStoreInfo(lookup.store) };
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  claimIdempotencyKey,
+  IDEMPOTENCY_CLAIM_TTL_MS,
+  releaseIdempotencyKey,
+  type ClaimRow,
+  type IdempotencyRow,
+  type IdempotencyStore,
+} from "./idempotency.ts";
+
+const fields = { title: "Sunset", template_id: "tpl", job_id: "job-1" };
+const now = Date.parse("2026-10-19T12:00:00Z");
+
+// Tabella in memoria con gli stessi vincoli del database: chiave unica e update condizionato su updated_at.
+// Ogni chiamata cede il controllo come farebbe una query, così le richieste concorrenti si intrecciano.
+function memoryStore(initial: Record<string, Partial<IdempotencyRow>> = {}) {
+  const rows = new Map<string, IdempotencyRow>();
+  for (const [key, row] of Object.entries(initial)) {
+    rows.set(key, { product_id: null, status: "creating", external_id: null, preview_url: null, updated_at: new Date(now).toISOString(), ...row });
+  }
+  const tick = () => new Promise((r) => setTimeout(r, 0));
+  const toRow = (claim: ClaimRow): IdempotencyRow => ({ ...claim, external_id: null, preview_url: null });
+  const store: IdempotencyStore = {
+    async find(key) {
+      await tick();
+      return rows.get(key) ?? null;
+    },
+    async insert(key, claim) {
+      await tick();
+      if (rows.has(key)) return false;
+      rows.set(key, toRow(claim));
+      return true;
+    },
+    async replace(key, expectedUpdatedAt, claim) {
+      await tick();
+      if (rows.get(key)?.updated_at !== expectedUpdatedAt) return false;
+      rows.set(key, toRow(claim));
+      return true;
+    },
+    async update(key, patch) {
+      await tick();
+      const row = rows.get(key);
+      if (row) rows.set(key, { ...row, ...patch });
+    },
+    async deleteIfEmpty(key) {
+      await tick();
+      if (!rows.get(key)?.product_id) rows.delete(key);
+    },
+  };
+  return { store, rows };
+}
+
+describe("claimIdempotencyKey", () => {
+  it("prenota una chiave nuova", async () => {
+    const { store, rows } = memoryStore();
+    expect(await claimIdempotencyKey(store, "k", fields, now)).toEqual({ kind: "claimed" });
+    expect(rows.get("k")).toMatchObject({ job_id: "job-1", product_id: null, status: "creating" });
+  });
+
+  it("un invio ripetuto restituisce il prodotto già creato", async () => {
+    const { store } = memoryStore({ k: { product_id: "p1", status: "active", external_id: "ext-1" } });
+    const claim = await claimIdempotencyKey(store, "k", { ...fields, job_id: "job-2" }, now);
+    expect(claim).toEqual({ kind: "reuse", row: expect.objectContaining({ product_id: "p1", status: "active", external_id: "ext-1" }) });
+  });
+
+  it("una prenotazione recente senza prodotto è occupata", async () => {
+    const { store } = memoryStore({ k: { updated_at: new Date(now - 1000).toISOString() } });
+    expect(await claimIdempotencyKey(store, "k", fields, now)).toEqual({ kind: "busy" });
+  });
+
+  it("riprende una prenotazione abbandonata", async () => {
+    const { store, rows } = memoryStore({ k: { updated_at: new Date(now - IDEMPOTENCY_CLAIM_TTL_MS - 1).toISOString() } });
+    expect(await claimIdempotencyKey(store, "k", fields, now)).toEqual({ kind: "claimed" });
+    expect(rows.get("k")).toMatchObject({ job_id: "job-1", updated_at: new Date(now).toISOString() });
+  });
+
+  it("di due prenotazioni concorrenti ne passa una sola", async () => {
+    const { store } = memoryStore();
+    const claims = await Promise.all([
+      claimIdempotencyKey(store, "k", { ...fields, job_id: "a" }, now),
+      claimIdempotencyKey(store, "k", { ...fields, job_id: "b" }, now),
+    ]);
+    expect(claims.map((c) => c.kind).sort()).toEqual(["busy", "claimed"]);
+  });
+
+  it("di due riprese concorrenti di una prenotazione abbandonata ne passa una sola", async () => {
+    const { store } = memoryStore({ k: { updated_at: new Date(now - IDEMPOTENCY_CLAIM_TTL_MS - 1).toISOString() } });
+    const claims = await Promise.all([
+      claimIdempotencyKey(store, "k", { ...fields, job_id: "a" }, now),
+      claimIdempotencyKey(store, "k", { ...fields, job_id: "b" }, now + 1),
+    ]);
+    expect(claims.map((c) => c.kind).sort()).toEqual(["busy", "claimed"]);
+  });
+});
+
+describe("releaseIdempotencyKey", () => {
+  it("dopo un fallimento la chiave si può prenotare di nuovo", async () => {
+    const { store, rows } = memoryStore();
+    await claimIdempotencyKey(store, "k", fields, now);
+    await releaseIdempotencyKey(store, "k");
+    expect(rows.has("k")).toBe(false);
+    expect(await claimIdempotencyKey(store, "k", { ...fields, job_id: "job-2" }, now)).toEqual({ kind: "claimed" });
+  });
+
+  it("non libera una chiave che ha già un prodotto", async () => {
+    const { store, rows } = memoryStore();
+    await claimIdempotencyKey(store, "k", fields, now);
+    await store.update("k", { product_id: "p1", status: "polling" });
+    await releaseIdempotencyKey(store, "k");
+    expect(rows.get("k")?.product_id).toBe("p1");
+  });
+});
@@ -0,0 +1,108 @@
+import type { AdminClient } from "./supabase-admin.ts";
+
+// Chiavi di idempotenza di gelato-bulk-create (tabella bulk_idempotency_keys, una riga per store e chiave).
+// Una chiave viene prenotata prima della creazione, legata al productId appena Gelato lo restituisce
+// e liberata solo se nessun prodotto è stato creato. La logica passa da IdempotencyStore,
+// così la si prova senza database.
+
+export const IDEMPOTENCY_TABLE = "bulk_idempotency_keys";
+
+/** una prenotazione senza prodotto più vecchia di così è considerata abbandonata */
+export const IDEMPOTENCY_CLAIM_TTL_MS = 10 * 60 * 1000;
+
+export interface IdempotencyRow {
+  product_id: string | null;
+  status: string | null;
+  external_id: string | null;
+  preview_url: string | null;
+  updated_at: string;
+}
+
+/** Dati della prenotazione: prodotto richiesto e job che lo sta creando */
+export interface ClaimFields {
+  title: string;
+  template_id: string;
+  job_id: string;
+}
+
+export interface ClaimRow extends ClaimFields {
+  product_id: null;
+  status: "creating";
+  updated_at: string;
+}
+
+export interface IdempotencyStore {
+  find(key: string): Promise<IdempotencyRow | null>;
+  /** false se la chiave esiste già (vincolo di unicità) */
+  insert(key: string, row: ClaimRow): Promise<boolean>;
+  /** aggiorna solo se updated_at vale ancora `expectedUpdatedAt`; false se un'altra richiesta l'ha presa */
+  replace(key: string, expectedUpdatedAt: string, row: ClaimRow): Promise<boolean>;
+  /** aggiorna prodotto e stato di una chiave già prenotata */
+  update(key: string, fields: Partial<Omit<IdempotencyRow, "updated_at">>): Promise<void>;
+  /** elimina la riga, ma mai una che ha già un product_id */
+  deleteIfEmpty(key: string): Promise<void>;
+}
+
+export type ClaimResult =
+  | { kind: "claimed" }
+  /** la chiave ha già creato un prodotto: va restituito quello */
+  | { kind: "reuse"; row: IdempotencyRow & { product_id: string } }
+  /** un'altra richiesta sta creando lo stesso prodotto */
+  | { kind: "busy" };
+
+/** Prenota la chiave: insert per una chiave nuova, update condizionato per una prenotazione abbandonata */
+export async function claimIdempotencyKey(store: IdempotencyStore, key: string, fields: ClaimFields, now = Date.now()): Promise<ClaimResult> {
+  const row = await store.find(key);
+  if (row?.product_id) return { kind: "reuse", row: { ...row, product_id: row.product_id } };
+  if (row && now - Date.parse(row.updated_at) < IDEMPOTENCY_CLAIM_TTL_MS) return { kind: "busy" };
+
+  const claim: ClaimRow = { ...fields, product_id: null, status: "creating", updated_at: new Date(now).toISOString() };
+  const claimed = row ? await store.replace(key, row.updated_at, claim) : await store.insert(key, claim);
+  return claimed ? { kind: "claimed" } : { kind: "busy" };
+}
+
+/** Nessun prodotto creato: la chiave torna libera per un nuovo tentativo */
+export function releaseIdempotencyKey(store: IdempotencyStore, key: string): Promise<void> {
+  return store.deleteIfEmpty(key);
+}
+
+export function supabaseIdempotencyStore(db: AdminClient, storeId: string): IdempotencyStore {
+  const match = (key: string) => ({ store_id: storeId, key });
+  return {
+    async find(key) {
+      const { data, error } = await db
+        .from(IDEMPOTENCY_TABLE)
+        .select("product_id, status, external_id, preview_url, updated_at")
+        .match(match(key))
+        .maybeSingle();
+      if (error) throw new Error(`Idempotency lookup: ${error.message}`);
+      return data as IdempotencyRow | null;
+    },
+    async insert(key, row) {
+      const { error } = await db.from(IDEMPOTENCY_TABLE).insert({ ...row, ...match(key) });
+      if (error?.code === "23505") return false;
+      if (error) throw new Error(`Idempotency claim: ${error.message}`);
+      return true;
+    },
+    async replace(key, expectedUpdatedAt, row) {
+      const { data, error } = await db
+        .from(IDEMPOTENCY_TABLE)
+        .update(row)
+        .match({ ...match(key), updated_at: expectedUpdatedAt })
+        .select("key");
+      if (error) throw new Error(`Idempotency claim: ${error.message}`);
+      return !!data?.length;
+    },
+    async update(key, fields) {
+      const { error } = await db
+        .from(IDEMPOTENCY_TABLE)
+        .update({ ...fields, updated_at: new Date().toISOString() })
+        .match(match(key));
+      if (error) throw new Error(`Idempotency update: ${error.message}`);
+    },
+    async deleteIfEmpty(key) {
+      const { error } = await db.from(IDEMPOTENCY_TABLE).delete().match(match(key)).is("product_id", null);
+      if (error) console.error(`Idempotency key ${key.slice(0, 12)}: cannot release claim:`, error.message);
+    },
+  };
+}
@@ -0,0 +1,48 @@
+// Cifratura AES-256-GCM delle chiavi API salvate in store_connections.
+// La chiave master è CREDENTIALS_ENCRYPTION_KEY (32 byte in base64), mai salvata nel database.
+
+export interface SealedSecret {
+  ciphertext: string;
+  iv: string;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+let masterKey: Promise<CryptoKey> | undefined;
+
+function getMasterKey(): Promise<CryptoKey> {
+  masterKey ??= (async () => {
+    const raw = (Deno.env.get("CREDENTIALS_ENCRYPTION_KEY") ?? "").trim();
+    if (!raw) throw new Error("CREDENTIALS_ENCRYPTION_KEY must be configured");
+    const bytes = fromBase64(raw);
+    if (bytes.length !== 32) throw new Error("CREDENTIALS_ENCRYPTION_KEY must be 32 bytes encoded as base64");
+    return crypto.subtle.importKey("raw", bytes, "AES-GCM", false, ["encrypt", "decrypt"]);
+  })();
+  return masterKey;
+}
+
+/** `context` (es. lo store ID) è legato al ciphertext: decifrare con un altro contesto fallisce */
+export async function sealSecret(plaintext: string, context: string): Promise<SealedSecret> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const encrypted = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(context) },
+    await getMasterKey(),
+    new TextEncoder().encode(plaintext),
+  );
+  return { ciphertext: toBase64(new Uint8Array(encrypted)), iv: toBase64(iv) };
+}
+
+export async function openSecret(sealed: SealedSecret, context: string): Promise<string> {
+  const decrypted = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(sealed.iv), additionalData: new TextEncoder().encode(context) },
+    await getMasterKey(),
+    fromBase64(sealed.ciphertext),
+  );
+  return new TextDecoder().decode(decrypted);
+}
+
+/** Ultimi caratteri della chiave, per riconoscerla nella UI senza esporla */
+export function secretHint(secret: string): string {
+  return `••••${secret.slice(-4)}`;
+}
@@ -0,0 +1,11 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+
+// Client con service role: bypassa RLS, da usare solo dentro le edge function
+export function createAdminClient() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceRoleKey) throw new Error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be configured");
+  return createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+}
+
+export type AdminClient = ReturnType<typeof createAdminClient>;
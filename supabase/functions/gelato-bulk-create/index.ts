@@ -1,25 +1,29 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { gelatoFetch } from "../_shared/gelato-fetch.ts";
+import { createAdminClient } from "../_shared/supabase-admin.ts";
+import { DEFAULT_SALES_CHANNEL, fetchGelatoStore, storeSalesChannels } from "../_shared/gelato-store.ts";
+import { BulkCreateRequestSchema, type ProductRequestInput } from "../_shared/bulk-schemas.ts";
+import { errorResponse, readJsonBody, validationErrorResponse } from "../_shared/errors.ts";
+import { resolveConnectionCredentials } from "../_shared/connections.ts";
+import { getRequestUserId, unauthorizedResponse } from "../_shared/auth.ts";
+import {
+  claimIdempotencyKey,
+  releaseIdempotencyKey,
+  supabaseIdempotencyStore,
+  type ClaimResult,
+  type IdempotencyRow,
+  type IdempotencyStore,
+} from "../_shared/idempotency.ts";
+
+// Runtime Supabase: tiene viva la funzione dopo la risposta finché la promise non termina
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-interface ProductVariant {
-  templateVariantId: string;
-  imagePlaceholders: Array<{ name: string; fileUrl: string }>;
-}
-interface ProductRequest {
-  title: string;
-  description: string;
-  tags: string[];
-  variants: ProductVariant[];
-}
-interface BulkCreateRequest {
-  templateId: string;
-  publish: boolean;
-  products: ProductRequest[];
-}
+type ProductRequest = ProductRequestInput;
 interface ProductResult {
   productId?: string;
   status: string;
@@ -27,128 +31,529 @@ interface ProductResult {
   previewUrl?: string;
   error?: string;
   title: string;
+  /** tentativi di create-from-template: retry su 429 e, se il prodotto non risulta creato, su 5xx/errori di rete */
+  attempts: number;
+  /** prodotto già creato in precedenza con la stessa chiave di idempotenza */
+  reused?: boolean;
+}
+
+type AdminClient = ReturnType<typeof createAdminClient>;
+
+/** Stato di un item come lo restituisce gelato-job-status e come viaggia nello stream SSE */
+interface JobItem {
+  position: number;
+  title: string;
+  /** pending | creating | polling, poi lo stato finale (active, publishing_error, timeout, error, cancelled) */
+  status: string;
+  /** ultimo stato letto da Gelato durante il polling */
+  gelatoStatus?: string;
+  productId?: string;
+  externalId?: string;
+  previewUrl?: string;
+  error?: string;
+  attempts: number;
+  reused?: boolean;
+  updatedAt: string;
+}
+
+type JobItemPatch = Partial<Omit<JobItem, "position" | "title" | "updatedAt">>;
+
+/** Eventi dello stream: snapshot iniziale, cambio di un item, fine del job */
+type JobEmitter = (event: "job" | "item" | "done", data: unknown) => void;
+
+interface GelatoContext {
+  apiKey: string;
+  storeId: string;
+  templateId: string;
+  publish: boolean;
+  salesChannels: string[];
 }
 
-async function pollProductStatus(storeId: string, productId: string, apiKey: string): Promise<{ status: string; externalId?: string; previewUrl?: string }> {
+const DEFAULT_CONCURRENCY = 4;
+const MAX_CONCURRENCY = 10;
+
+function resolveConcurrency(requested?: number): number {
+  const fromEnv = Number(Deno.env.get("GELATO_BULK_CONCURRENCY"));
+  const value = requested ?? (Number.isFinite(fromEnv) && fromEnv > 0 ? fromEnv : DEFAULT_CONCURRENCY);
+  return Math.min(MAX_CONCURRENCY, Math.max(1, Math.floor(value)));
+}
+
+/** Esegue worker su tutti gli item con al massimo `limit` in volo; risultati nell'ordine di input */
+async function runPool<T, R>(items: T[], limit: number, worker: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+  await Promise.all(lanes);
+  return results;
+}
+
+async function pollProductStatus(
+  storeId: string,
+  productId: string,
+  apiKey: string,
+  onStatus?: (status: string) => Promise<void>,
+): Promise<{ status: string; externalId?: string; previewUrl?: string }> {
   const maxAttempts = 30;
   const pollInterval = 1000;
+  let lastStatus: string | undefined;
 
   for (let attempt = 0; attempt < maxAttempts; attempt++) {
     try {
-      const response = await fetch(`https://ecommerce.gelatoapis.com/v1/stores/${storeId}/products/${productId}`, {
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
-          Accept: "application/json",
+      const { response } = await gelatoFetch(
+        `https://ecommerce.gelatoapis.com/v1/stores/${storeId}/products/${productId}`,
+        {
+          headers: {
+            Authorization: `Bearer ${apiKey}`,
+            "Content-Type": "application/json",
+            Accept: "application/json",
+          },
         },
-      });
+        { maxAttempts: 3 },
+      );
       if (response.ok) {
         const product = await response.json();
         const status = product.status;
+        if (status !== lastStatus) {
+          lastStatus = status;
+          await onStatus?.(status);
+        }
         if (status === "active" || status === "publishing_error") {
           return { status, externalId: product.externalId, previewUrl: product.previewUrl };
         }
       }
-      await new Promise((r) => setTimeout(r, pollInterval));
     } catch (err) {
       console.error(`Polling attempt ${attempt + 1} failed:`, err);
     }
+    // anche dopo un errore: senza pausa i tentativi si brucerebbero in un ciclo stretto
+    await new Promise((r) => setTimeout(r, pollInterval));
   }
   return { status: "timeout" };
 }
 
-serve(async (req) => {
-  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+const FINAL_GELATO_STATUSES = ["active", "publishing_error"];
 
+/** Prodotto già creato con la stessa chiave: restituisce quello, aggiornandone lo stato se non era concluso */
+async function reuseProduct(
+  store: IdempotencyStore,
+  ctx: GelatoContext,
+  key: string,
+  product: ProductRequest,
+  row: IdempotencyRow & { product_id: string },
+  onStage: (patch: JobItemPatch) => Promise<void>,
+): Promise<ProductResult> {
+  const reused: ProductResult = {
+    productId: row.product_id,
+    title: product.title,
+    status: row.status ?? "timeout",
+    externalId: row.external_id ?? undefined,
+    previewUrl: row.preview_url ?? undefined,
+    attempts: 0,
+    reused: true,
+  };
+  console.log(`Product ${product.title} already created as ${row.product_id} (key ${key.slice(0, 12)})`);
+  if (FINAL_GELATO_STATUSES.includes(reused.status)) return reused;
+
+  await onStage({ status: "polling", productId: row.product_id, reused: true });
+  const statusResult = await pollProductStatus(ctx.storeId, row.product_id, ctx.apiKey, (gelatoStatus) => onStage({ gelatoStatus }));
+  await store
+    .update(key, { status: statusResult.status, external_id: statusResult.externalId ?? null, preview_url: statusResult.previewUrl ?? null })
+    .catch((error) => console.error(`Idempotency key ${key.slice(0, 12)}:`, error.message));
+  return { ...reused, ...statusResult };
+}
+
+/**
+ * createProduct con chiave di idempotenza: la chiave viene prenotata prima della creazione,
+ * legata al productId appena Gelato lo restituisce e liberata solo se nessun prodotto è stato creato.
+ */
+async function createProductOnce(
+  db: AdminClient,
+  jobId: string,
+  ctx: GelatoContext,
+  product: ProductRequest,
+  onStage: (patch: JobItemPatch) => Promise<void>,
+): Promise<ProductResult> {
+  const key = product.idempotencyKey;
+  if (!key) return createProduct(ctx, product, onStage);
+
+  const store = supabaseIdempotencyStore(db, ctx.storeId);
+  let claim: ClaimResult;
   try {
-    // ⚠️ TRIM per evitare spazi/virgolette copiate negli secrets
-    const GELATO_API_KEY = (Deno.env.get("GELATO_API_KEY") ?? "").trim();
-    const GELATO_STORE_ID = (Deno.env.get("GELATO_STORE_ID") ?? "").trim();
+    claim = await claimIdempotencyKey(store, key, { title: product.title, template_id: ctx.templateId, job_id: jobId });
+  } catch (error) {
+    return { title: product.title, status: "error", error: error instanceof Error ? error.message : String(error), attempts: 0 };
+  }
+  if (claim.kind === "reuse") return reuseProduct(store, ctx, key, product, claim.row, onStage);
+  if (claim.kind === "busy") {
+    return { title: product.title, status: "error", error: "Creazione già in corso con la stessa chiave di idempotenza", attempts: 0 };
+  }
 
-    if (!GELATO_API_KEY || !GELATO_STORE_ID) {
-      throw new Error("GELATO_API_KEY and GELATO_STORE_ID must be configured");
+  let createdProductId: string | undefined;
+  const result = await createProduct(ctx, product, async (patch) => {
+    // Il prodotto esiste su Gelato: da qui in poi la chiave restituisce questo productId,
+    // anche se un passaggio successivo (item, polling) fallisce
+    if (patch.productId && !createdProductId) {
+      createdProductId = patch.productId;
+      await store
+        .update(key, { product_id: patch.productId, status: "polling" })
+        .catch((error) => console.error(`Idempotency key ${key.slice(0, 12)}: cannot store product ${patch.productId}:`, error.message));
     }
+    await onStage(patch);
+  });
 
-    // mini-log non sensibile (solo prefisso/lunghezza)
-    console.log("Using Gelato key prefix:", GELATO_API_KEY.slice(0, 6), "len:", GELATO_API_KEY.length);
+  const productId = result.productId ?? createdProductId;
+  if (productId) {
+    await store
+      .update(key, { product_id: productId, status: result.status, external_id: result.externalId ?? null, preview_url: result.previewUrl ?? null })
+      .catch((error) => console.error(`Idempotency key ${key.slice(0, 12)}: cannot update product ${productId}:`, error.message));
+    return { ...result, productId };
+  }
+  await releaseIdempotencyKey(store, key);
+  return result;
+}
 
-    const requestData: BulkCreateRequest = await req.json();
-    const { templateId, publish, products } = requestData;
+// prodotti recenti letti per capire se una creazione fallita è andata a buon fine
+const RECENT_PRODUCTS_LIMIT = 50;
+// tolleranza tra l'orologio della funzione e createdAt di Gelato
+const CREATED_AT_SKEW_MS = 60_000;
 
-    console.log(`Starting bulk creation of ${products.length} products`);
+/**
+ * Controllo prima di ripetere una create-from-template fallita con 5xx o a metà connessione:
+ * cerca tra i prodotti più recenti dello store uno con lo stesso titolo creato dopo l'invio.
+ * Trovato = la creazione è avvenuta, il prodotto torna come risposta al posto del retry.
+ */
+async function findCreatedProduct(ctx: GelatoContext, title: string, sentAt: number): Promise<Response | undefined> {
+  const { response } = await gelatoFetch(
+    `https://ecommerce.gelatoapis.com/v1/stores/${ctx.storeId}/products?order=desc&orderBy=createdAt&limit=${RECENT_PRODUCTS_LIMIT}`,
+    { headers: { Authorization: `Bearer ${ctx.apiKey}`, Accept: "application/json" } },
+    { maxAttempts: 3 },
+  );
+  if (!response.ok) throw new Error(`Cannot list products: ${response.status}`);
+  const { products = [] } = (await response.json()) as { products?: Array<{ id: string; title?: string; createdAt?: string }> };
+  const found = products.find((p) => p.title === title && Date.parse(p.createdAt ?? "") >= sentAt - CREATED_AT_SKEW_MS);
+  if (!found) return undefined;
+  console.log(`Product ${title} was created despite the failed request: ${found.id}`);
+  return new Response(JSON.stringify(found), { status: 201, headers: { "Content-Type": "application/json" } });
+}
 
-    const results: ProductResult[] = [];
+async function createProduct(
+  ctx: GelatoContext,
+  product: ProductRequest,
+  onStage: (patch: JobItemPatch) => Promise<void>,
+): Promise<ProductResult> {
+  let attempts = 0;
+  let productId: string | undefined;
 
-    for (let i = 0; i < products.length; i++) {
-      const product = products[i];
-      console.log(`Creating product ${i + 1}/${products.length}: ${product.title}`);
+  try {
+    await onStage({ status: "creating" });
+    const sentAt = Date.now();
+    const created = await gelatoFetch(`https://ecommerce.gelatoapis.com/v1/stores/${ctx.storeId}/products:create-from-template`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${ctx.apiKey}`,
+        "Content-Type": "application/json",
+        Accept: "application/json",
+      },
+      body: JSON.stringify({
+        templateId: ctx.templateId,
+        title: product.title,
+        description: product.description,
+        tags: product.tags,
+        isVisibleInTheOnlineStore: ctx.publish,
+        salesChannels: ctx.salesChannels,
+        variants: product.variants,
+      }),
+    }, { checkBeforeRetry: () => findCreatedProduct(ctx, product.title, sentAt) });
+    const createResponse = created.response;
+    attempts = created.attempts;
 
+    if (!createResponse.ok) {
+      const raw = await createResponse.text();
+      let message = raw;
       try {
-        const createResponse = await fetch(`https://ecommerce.gelatoapis.com/v1/stores/${GELATO_STORE_ID}/products:create-from-template`, {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${GELATO_API_KEY}`,
-            "Content-Type": "application/json",
-            Accept: "application/json",
-          },
-          body: JSON.stringify({
-            templateId,
-            title: product.title,
-            description: product.description,
-            tags: product.tags,
-            isVisibleInTheOnlineStore: publish,
-            salesChannels: publish ? ["web"] : [],
-            variants: product.variants,
-          }),
-        });
-
-        if (!createResponse.ok) {
-          const raw = await createResponse.text();
-          let message = raw;
-          try {
-            const j = JSON.parse(raw);
-            message = j.message || raw;
-          } catch {}
-          console.error(`Failed to create product ${product.title}: ${createResponse.status} - ${message}`);
-          results.push({ title: product.title, status: "error", error: `${createResponse.status} - ${message}` });
-          continue;
-        }
+        const j = JSON.parse(raw);
+        message = j.message || raw;
+      } catch {}
+      console.error(`Failed to create product ${product.title}: ${createResponse.status} - ${message} (attempts: ${attempts})`);
+      return { title: product.title, status: "error", error: `${createResponse.status} - ${message}`, attempts };
+    }
+
+    productId = (await createResponse.json()).id;
+    console.log(`Product created with ID: ${productId} after ${attempts} attempt(s), polling status...`);
+    await onStage({ status: "polling", productId, attempts });
 
-        const created = await createResponse.json();
-        const productId = created.id;
-        console.log(`Product created with ID: ${productId}, polling status...`);
+    const statusResult = await pollProductStatus(ctx.storeId, productId, ctx.apiKey, (gelatoStatus) => onStage({ gelatoStatus }));
+    console.log(`Product ${product.title} finished with status: ${statusResult.status}`);
 
-        const statusResult = await pollProductStatus(GELATO_STORE_ID, productId, GELATO_API_KEY);
+    return {
+      productId,
+      title: product.title,
+      status: statusResult.status,
+      externalId: statusResult.externalId,
+      previewUrl: statusResult.previewUrl,
+      attempts,
+    };
+  } catch (err: any) {
+    console.error(`Error creating product ${product.title}:`, err);
+    // il prodotto può esistere già su Gelato: il productId resta nel risultato
+    return { productId, title: product.title, status: "error", error: String(err?.message || err), attempts: attempts || err?.attempts || 1 };
+  }
+}
+
+/** Lavora tutti i prodotti del job in background, salvando (ed emettendo) lo stato di ogni item a ogni passaggio */
+async function processJob(
+  db: AdminClient,
+  jobId: string,
+  ctx: GelatoContext,
+  products: ProductRequest[],
+  items: JobItem[],
+  concurrency: number,
+  emit: JobEmitter,
+) {
+  const touch = () => new Date().toISOString();
+  const updateItem = async (position: number, patch: JobItemPatch) => {
+    const item = Object.assign(items[position], patch, { updatedAt: touch() });
+    emit("item", item);
+    const { error } = await db
+      .from("bulk_job_items")
+      .update({
+        status: item.status,
+        gelato_status: item.gelatoStatus ?? null,
+        product_id: item.productId ?? null,
+        external_id: item.externalId ?? null,
+        preview_url: item.previewUrl ?? null,
+        error: item.error ?? null,
+        attempts: item.attempts,
+        reused: item.reused ?? false,
+        updated_at: item.updatedAt,
+      })
+      .eq("job_id", jobId)
+      .eq("position", position);
+    if (error) console.error(`Job ${jobId}: failed to update item ${position}:`, error.message);
+  };
 
-        results.push({
-          productId,
-          title: product.title,
-          status: statusResult.status,
-          externalId: statusResult.externalId,
-          previewUrl: statusResult.previewUrl,
-        });
+  // Annullamento richiesto da gelato-job-cancel: letto prima di ogni prodotto, una volta visto resta valido
+  let cancelled = false;
+  const isCancelRequested = async () => {
+    if (cancelled) return true;
+    const { data, error } = await db.from("bulk_jobs").select("cancel_requested_at").eq("id", jobId).maybeSingle();
+    if (error) console.error(`Job ${jobId}: cannot read cancel request:`, error.message);
+    cancelled = !!data?.cancel_requested_at;
+    return cancelled;
+  };
 
-        console.log(`Product ${product.title} finished with status: ${statusResult.status}`);
-      } catch (err: any) {
-        console.error(`Error creating product ${product.title}:`, err);
-        results.push({ title: product.title, status: "error", error: String(err?.message || err) });
+  try {
+    await db.from("bulk_jobs").update({ status: "running", updated_at: touch() }).eq("id", jobId);
+
+    const results = await runPool(products, concurrency, async (product, i): Promise<ProductResult> => {
+      if (await isCancelRequested()) {
+        const error = "Annullato prima dell'invio a Gelato";
+        await updateItem(i, { status: "cancelled", error });
+        return { title: product.title, status: "cancelled", error, attempts: 0 };
       }
-    }
+      console.log(`Job ${jobId}: creating product ${i + 1}/${products.length}: ${product.title}`);
+      const result = await createProductOnce(db, jobId, ctx, product, (patch) => updateItem(i, patch));
+      await updateItem(i, {
+        status: result.status,
+        productId: result.productId,
+        externalId: result.externalId,
+        previewUrl: result.previewUrl,
+        error: result.error,
+        attempts: result.attempts,
+        reused: result.reused,
+      });
+      return result;
+    });
 
     const okCount = results.filter((r) => r.status === "active").length;
-    console.log(`Bulk creation completed. Created ${okCount}/${products.length} products successfully`);
+    const status = results.some((r) => r.status === "cancelled") ? "cancelled" : "completed";
+    const finishedAt = touch();
+    console.log(`Job ${jobId} ${status}. Created ${okCount}/${products.length} products successfully`);
+    await db
+      .from("bulk_jobs")
+      .update({ status, success_count: okCount, error_count: results.length - okCount, updated_at: finishedAt, finished_at: finishedAt })
+      .eq("id", jobId);
+    emit("done", { status, successCount: okCount, errorCount: results.length - okCount, finishedAt });
+  } catch (err) {
+    console.error(`Job ${jobId} failed:`, err);
+    const error = err instanceof Error ? err.message : String(err);
+    const finishedAt = touch();
+    await db.from("bulk_jobs").update({ status: "failed", error, updated_at: finishedAt, finished_at: finishedAt }).eq("id", jobId);
+    emit("done", { status: "failed", error, finishedAt });
+  }
+}
+
+const SSE_KEEPALIVE_MS = 15_000;
+
+/**
+ * Stream SSE del job: il lavoro continua anche se il client si disconnette,
+ * lo stato resta leggibile da gelato-job-status.
+ */
+function streamJob(snapshot: unknown, run: (emit: JobEmitter) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+  let open = true;
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        if (!open) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          open = false;
+        }
+      };
+      const emit: JobEmitter = (event, data) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      const keepalive = setInterval(() => write(": keepalive\n\n"), SSE_KEEPALIVE_MS);
+
+      emit("job", snapshot);
+      const work = run(emit).finally(() => {
+        clearInterval(keepalive);
+        if (open) controller.close();
+        open = false;
+      });
+      if (typeof EdgeRuntime !== "undefined") EdgeRuntime.waitUntil(work);
+    },
+    cancel() {
+      open = false;
+    },
+  });
+
+  return new Response(body, {
+    headers: { ...corsHeaders, "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" },
+  });
+}
 
-    // Se tutti errori → 400 per far comparire il toast rosso lato UI
-    const allError = results.length > 0 && results.every((r) => r.status !== "active");
-    return new Response(JSON.stringify({ results }), {
-      status: allError ? 400 : 200,
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    const db = createAdminClient();
+    const userId = await getRequestUserId(db, req);
+    if (!userId) return unauthorizedResponse(corsHeaders);
+
+    const body = await readJsonBody(req);
+    if (body === undefined) return errorResponse(corsHeaders, 400, "invalid_json", "Body must be a JSON BulkCreateRequest");
+    const parsed = BulkCreateRequestSchema.safeParse(body);
+    if (!parsed.success) return validationErrorResponse(corsHeaders, parsed.error);
+
+    const requestData = parsed.data;
+    const { templateId, products, publish } = requestData;
+    const concurrency = resolveConcurrency(requestData.concurrency);
+
+    // Credenziali: solo dalla connessione salvata dell'utente (chiave cifrata + suo store).
+    // Niente ripiego sui secrets della function, che darebbe a ogni utente la chiave del deploy.
+    const connectionId = requestData.connectionId;
+    const credentials = await resolveConnectionCredentials(db, connectionId, userId);
+    if (!credentials) return errorResponse(corsHeaders, 404, "not_found", "Connection not found");
+    if (requestData.storeId && requestData.storeId !== credentials.storeId) {
+      return errorResponse(corsHeaders, 400, "validation_failed", "storeId does not match the connection", [
+        { path: "storeId", code: "custom", message: `Connection is bound to store ${credentials.storeId}` },
+      ]);
+    }
+    const GELATO_API_KEY = credentials.apiKey;
+    const storeId = credentials.storeId;
+
+    const storeLookup = await fetchGelatoStore(storeId, GELATO_API_KEY);
+    if (!storeLookup.ok) {
+      return errorResponse(
+        corsHeaders,
+        400,
+        "store_unavailable",
+        `Store ${storeId} not accessible with the connection key: ${storeLookup.status} - ${storeLookup.message}`,
+      );
+    }
+
+    // Canali: solo in pubblicazione e solo tra quelli dello store collegato
+    const requestedChannels = [...new Set(requestData.salesChannels ?? [DEFAULT_SALES_CHANNEL])];
+    const availableChannels = storeSalesChannels(storeLookup.store);
+    const unknownChannels = requestedChannels.filter((c) => !availableChannels.includes(c));
+    if (publish && unknownChannels.length) {
+      return errorResponse(
+        corsHeaders,
+        400,
+        "channel_unavailable",
+        `Sales channels not available on store ${storeId} (available: ${availableChannels.join(", ")})`,
+        requestedChannels
+          .map((channel, index) => ({ channel, index }))
+          .filter(({ channel }) => unknownChannels.includes(channel))
+          .map(({ channel, index }) => ({ path: `salesChannels[${index}]`, code: "channel_unavailable", message: `"${channel}" is not offered by the store` })),
+      );
+    }
+    if (publish && requestedChannels.length === 0) {
+      return errorResponse(corsHeaders, 400, "validation_failed", "At least one sales channel is required to publish", [
+        { path: "salesChannels", code: "too_small", message: "Required when publish is true" },
+      ]);
+    }
+    const salesChannels = publish ? requestedChannels : [];
+
+    const { data: job, error: jobError } = await db
+      .from("bulk_jobs")
+      .insert({
+        template_id: templateId,
+        store_id: storeId,
+        connection_id: connectionId,
+        user_id: userId,
+        publish,
+        sales_channels: salesChannels,
+        total: products.length,
+      })
+      .select("id, created_at")
+      .single();
+    if (jobError) throw new Error(`Cannot create job: ${jobError.message}`);
+
+    const { error: itemsError } = await db
+      .from("bulk_job_items")
+      .insert(products.map((product, position) => ({ job_id: job.id, position, title: product.title, request: product })));
+    if (itemsError) throw new Error(`Cannot create job items: ${itemsError.message}`);
+
+    console.log(
+      `Job ${job.id}: queued ${products.length} products on store ${storeId} (${publish ? `publish: ${salesChannels.join(", ")}` : "draft"}, concurrency ${concurrency})`,
+    );
+
+    const ctx: GelatoContext = { apiKey: GELATO_API_KEY, storeId, templateId, publish, salesChannels };
+    const items: JobItem[] = products.map((product, position) => ({
+      position,
+      title: product.title,
+      status: "pending",
+      attempts: 0,
+      updatedAt: job.created_at,
+    }));
+
+    // Modalità stream: Accept: text/event-stream oppure ?stream=1
+    const wantsStream = (req.headers.get("Accept") ?? "").includes("text/event-stream") || new URL(req.url).searchParams.get("stream") === "1";
+    if (wantsStream) {
+      const snapshot = {
+        id: job.id,
+        status: "queued",
+        templateId,
+        storeId,
+        publish,
+        salesChannels,
+        total: products.length,
+        completed: 0,
+        successCount: 0,
+        errorCount: 0,
+        createdAt: job.created_at,
+        updatedAt: job.created_at,
+        items,
+      };
+      return streamJob(snapshot, (emit) => processJob(db, job.id, ctx, products, items, concurrency, emit));
+    }
+
+    const work = processJob(db, job.id, ctx, products, items, concurrency, () => {});
+    if (typeof EdgeRuntime !== "undefined") EdgeRuntime.waitUntil(work);
+
+    return new Response(JSON.stringify({ jobId: job.id, total: products.length }), {
+      status: 202,
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   } catch (error: any) {
     console.error("Error in gelato-bulk-create:", error);
-    return new Response(JSON.stringify({ error: String(error?.message || error) }), {
-      status: 500,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    return errorResponse(corsHeaders, 500, "internal_error", String(error?.message || error));
   }
 });
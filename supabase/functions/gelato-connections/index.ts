@@ -0,0 +1,132 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createAdminClient } from "../_shared/supabase-admin.ts";
+import { verifyStoreCredentials } from "../_shared/gelato-store.ts";
+import { ConnectionIdSchema, RotateKeyRequestSchema, VerifyRequestSchema } from "../_shared/bulk-schemas.ts";
+import { errorResponse, readJsonBody, validationErrorResponse } from "../_shared/errors.ts";
+import { CONNECTION_COLUMNS, findConnection, toConnectionInfo, type ConnectionRow } from "../_shared/connections.ts";
+import { getRequestUserId, unauthorizedResponse, workspaceUserIds } from "../_shared/auth.ts";
+import { sealSecret, secretHint } from "../_shared/secret-box.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET,POST,PATCH,DELETE,OPTIONS",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+// Vault delle credenziali Gelato:
+// POST   { apiKey, storeId }        verifica e salva cifrata, restituisce la connessione
+// GET                               connessioni dell'utente e del suo team (multi-store)
+// GET    ?connectionId=             metadati della connessione
+// PATCH  { connectionId, apiKey }   rotazione della chiave (stesso store)
+// DELETE ?connectionId=             disconnessione
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    const db = createAdminClient();
+    const userId = await getRequestUserId(db, req);
+    if (!userId) return unauthorizedResponse(corsHeaders);
+    const url = new URL(req.url);
+
+    if (req.method === "GET" && !url.searchParams.has("connectionId")) {
+      const { data, error } = await db
+        .from("store_connections")
+        .select(CONNECTION_COLUMNS)
+        .in("user_id", await workspaceUserIds(db, userId))
+        .order("created_at", { ascending: true });
+      if (error) throw new Error(`Cannot list connections: ${error.message}`);
+      return json({ connections: (data as ConnectionRow[]).map(toConnectionInfo) });
+    }
+
+    if (req.method === "GET" || req.method === "DELETE") {
+      const parsed = ConnectionIdSchema.safeParse({ connectionId: url.searchParams.get("connectionId") ?? undefined });
+      if (!parsed.success) return validationErrorResponse(corsHeaders, parsed.error);
+
+      const connection = await findConnection(db, parsed.data.connectionId, userId);
+      if (!connection) return errorResponse(corsHeaders, 404, "not_found", "Connection not found");
+      if (req.method === "GET") return json({ connection: toConnectionInfo(connection) });
+
+      const { error } = await db.from("store_connections").delete().eq("id", connection.id);
+      if (error) throw new Error(`Cannot delete connection: ${error.message}`);
+      console.log(`[connections] ${connection.id} disconnected (store ${connection.store_id})`);
+      return json({ deleted: true });
+    }
+
+    const body = await readJsonBody(req);
+    if (body === undefined) return errorResponse(corsHeaders, 400, "invalid_json", "Body must be JSON");
+
+    if (req.method === "POST") {
+      const parsed = VerifyRequestSchema.safeParse(body);
+      if (!parsed.success) return validationErrorResponse(corsHeaders, parsed.error);
+      const { apiKey, storeId } = parsed.data;
+
+      const verification = await verifyStoreCredentials(corsHeaders, storeId, apiKey);
+      if (!verification.ok) return verification.response;
+
+      const { store } = verification;
+      const sealed = await sealSecret(apiKey, store.id);
+      const { data, error } = await db
+        .from("store_connections")
+        .insert({
+          user_id: userId,
+          store_id: store.id,
+          store_name: store.name,
+          currency: store.currency ?? null,
+          platform: store.platform ?? null,
+          sales_channels: store.salesChannels,
+          key_ciphertext: sealed.ciphertext,
+          key_iv: sealed.iv,
+          key_hint: secretHint(apiKey),
+        })
+        .select(CONNECTION_COLUMNS)
+        .single();
+      if (error) throw new Error(`Cannot save connection: ${error.message}`);
+      console.log(`[connections] ${data.id} created for store ${store.id}`);
+      return json({ connection: toConnectionInfo(data as ConnectionRow) }, 201);
+    }
+
+    if (req.method === "PATCH") {
+      const parsed = RotateKeyRequestSchema.safeParse(body);
+      if (!parsed.success) return validationErrorResponse(corsHeaders, parsed.error);
+      const { connectionId, apiKey } = parsed.data;
+
+      const connection = await findConnection(db, connectionId, userId);
+      if (!connection) return errorResponse(corsHeaders, 404, "not_found", "Connection not found");
+
+      // La nuova chiave deve dare accesso allo stesso store
+      const verification = await verifyStoreCredentials(corsHeaders, connection.store_id, apiKey);
+      if (!verification.ok) return verification.response;
+
+      const { store } = verification;
+      const sealed = await sealSecret(apiKey, connection.store_id);
+      const now = new Date().toISOString();
+      const { data, error } = await db
+        .from("store_connections")
+        .update({
+          store_name: store.name,
+          currency: store.currency ?? null,
+          platform: store.platform ?? null,
+          sales_channels: store.salesChannels,
+          key_ciphertext: sealed.ciphertext,
+          key_iv: sealed.iv,
+          key_hint: secretHint(apiKey),
+          updated_at: now,
+          rotated_at: now,
+        })
+        .eq("id", connection.id)
+        .select(CONNECTION_COLUMNS)
+        .single();
+      if (error) throw new Error(`Cannot rotate key: ${error.message}`);
+      console.log(`[connections] ${connection.id} key rotated`);
+      return json({ connection: toConnectionInfo(data as ConnectionRow) });
+    }
+
+    return errorResponse(corsHeaders, 405, "validation_failed", `Method ${req.method} not allowed`);
+  } catch (error) {
+    console.error("Error in gelato-connections:", error);
+    return errorResponse(corsHeaders, 500, "internal_error", error instanceof Error ? error.message : String(error));
+  }
+});
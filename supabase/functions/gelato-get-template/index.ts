@@ -1,4 +1,9 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { TemplateRequestSchema } from "../_shared/bulk-schemas.ts";
+import { errorResponse, readJsonBody, validationErrorResponse } from "../_shared/errors.ts";
+import { createAdminClient } from "../_shared/supabase-admin.ts";
+import { resolveConnectionCredentials } from "../_shared/connections.ts";
+import { getRequestUserId, unauthorizedResponse } from "../_shared/auth.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -10,23 +15,30 @@ serve(async (req) => {
   if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
 
   try {
-    const GELATO_API_KEY = Deno.env.get("GELATO_API_KEY");
-    if (!GELATO_API_KEY) throw new Error("GELATO_API_KEY is not configured");
+    const db = createAdminClient();
+    const userId = await getRequestUserId(db, req);
+    if (!userId) return unauthorizedResponse(corsHeaders);
 
-    // Leggi sia query (?templateId=) sia body JSON { templateId }
+    // Leggi sia query (?templateId=&connectionId=) sia body JSON { templateId, connectionId }
     const url = new URL(req.url);
-    let templateId = url.searchParams.get("templateId");
-    if (!templateId && req.method !== "GET") {
-      try {
-        const body = await req.json();
-        templateId = body?.templateId;
-      } catch { /* ignore */ }
-    }
-    if (!templateId) {
-      return new Response(JSON.stringify({ error: "Template ID is required" }), {
-        status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+    let rawTemplateId: unknown = url.searchParams.get("templateId");
+    let rawConnectionId: unknown = url.searchParams.get("connectionId");
+    if (!rawTemplateId && req.method !== "GET") {
+      const body = (await readJsonBody(req)) as { templateId?: unknown; connectionId?: unknown } | undefined;
+      rawTemplateId = body?.templateId;
+      rawConnectionId = rawConnectionId || body?.connectionId;
     }
+    const parsed = TemplateRequestSchema.safeParse({
+      templateId: rawTemplateId ?? undefined,
+      connectionId: rawConnectionId || undefined,
+    });
+    if (!parsed.success) return validationErrorResponse(corsHeaders, parsed.error);
+    const { templateId, connectionId } = parsed.data;
+
+    // Chiave della connessione salvata dell'utente: nessun ripiego sui secrets della function
+    const credentials = await resolveConnectionCredentials(db, connectionId, userId);
+    if (!credentials) return errorResponse(corsHeaders, 404, "not_found", "Connection not found");
+    const GELATO_API_KEY = credentials.apiKey;
 
     console.log(`[get-template] calling Gelato for ${templateId}`);
 
@@ -38,9 +50,8 @@ serve(async (req) => {
     const payload = await resp.json();
     if (!resp.ok) {
       console.error("[get-template] Gelato error", resp.status, payload);
-      return new Response(JSON.stringify({ error: payload?.message ?? "Gelato API error", raw: payload }), {
-        status: resp.status, headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+      const code = resp.status === 404 ? "not_found" : "upstream_error";
+      return errorResponse(corsHeaders, resp.status, code, payload?.message ?? "Gelato API error");
     }
 
     return new Response(JSON.stringify(payload), {
@@ -48,8 +59,6 @@ serve(async (req) => {
     });
   } catch (e) {
     console.error("Error in gelato-get-template:", e);
-    return new Response(JSON.stringify({ error: String(e?.message ?? e) }), {
-      status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    return errorResponse(corsHeaders, 500, "internal_error", String(e?.message ?? e));
   }
 });
@@ -0,0 +1,59 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createAdminClient } from "../_shared/supabase-admin.ts";
+import { JobStatusRequestSchema } from "../_shared/bulk-schemas.ts";
+import { errorResponse, readJsonBody, validationErrorResponse } from "../_shared/errors.ts";
+import { getRequestUserId, sharesWorkspace, unauthorizedResponse } from "../_shared/auth.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST,OPTIONS",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Chiede l'annullamento di un job: gelato-bulk-create non avvia altri prodotti,
+// quelli già inviati a Gelato vengono completati. Ripetere la richiesta non cambia nulla.
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    const db = createAdminClient();
+    const userId = await getRequestUserId(db, req);
+    if (!userId) return unauthorizedResponse(corsHeaders);
+
+    const body = await readJsonBody(req);
+    if (body === undefined) return errorResponse(corsHeaders, 400, "invalid_json", "Body must be JSON { jobId }");
+    const parsed = JobStatusRequestSchema.safeParse(body);
+    if (!parsed.success) return validationErrorResponse(corsHeaders, parsed.error);
+
+    const { data: job, error: jobError } = await db
+      .from("bulk_jobs")
+      .select("id, user_id, status, cancel_requested_at, finished_at")
+      .eq("id", parsed.data.jobId)
+      .maybeSingle();
+    if (jobError) throw new Error(jobError.message);
+    // i job di altri workspace risultano inesistenti
+    if (!job || !(await sharesWorkspace(db, job.user_id, userId))) {
+      return errorResponse(corsHeaders, 404, "not_found", `Job ${parsed.data.jobId} not found`);
+    }
+
+    let cancelRequestedAt: string | null = job.cancel_requested_at;
+    // un job concluso non ha più nulla da annullare
+    if (!job.finished_at && !cancelRequestedAt) {
+      cancelRequestedAt = new Date().toISOString();
+      const { error } = await db
+        .from("bulk_jobs")
+        .update({ cancel_requested_at: cancelRequestedAt, updated_at: cancelRequestedAt })
+        .eq("id", job.id)
+        .is("finished_at", null);
+      if (error) throw new Error(error.message);
+      console.log(`Job ${job.id}: cancel requested by ${userId}`);
+    }
+
+    return new Response(JSON.stringify({ jobId: job.id, status: job.status, cancelRequestedAt: cancelRequestedAt ?? undefined }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error in gelato-job-cancel:", error);
+    return errorResponse(corsHeaders, 500, "internal_error", error instanceof Error ? error.message : String(error));
+  }
+});
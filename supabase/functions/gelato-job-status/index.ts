@@ -0,0 +1,86 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createAdminClient } from "../_shared/supabase-admin.ts";
+import { JobStatusRequestSchema } from "../_shared/bulk-schemas.ts";
+import { errorResponse, readJsonBody, validationErrorResponse } from "../_shared/errors.ts";
+import { getRequestUserId, sharesWorkspace, unauthorizedResponse } from "../_shared/auth.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET,POST,OPTIONS",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Stati item ancora in lavorazione; tutti gli altri sono finali
+const IN_PROGRESS = ["pending", "creating", "polling"];
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    const db = createAdminClient();
+    const userId = await getRequestUserId(db, req);
+    if (!userId) return unauthorizedResponse(corsHeaders);
+
+    // Leggi sia query (?jobId=) sia body JSON { jobId }
+    const url = new URL(req.url);
+    let jobId: unknown = url.searchParams.get("jobId");
+    if (!jobId && req.method !== "GET") {
+      jobId = ((await readJsonBody(req)) as { jobId?: unknown } | undefined)?.jobId;
+    }
+    const parsed = JobStatusRequestSchema.safeParse({ jobId: jobId ?? undefined });
+    if (!parsed.success) return validationErrorResponse(corsHeaders, parsed.error);
+
+    const { data: job, error: jobError } = await db.from("bulk_jobs").select("*").eq("id", parsed.data.jobId).maybeSingle();
+    if (jobError) throw new Error(jobError.message);
+    // i job di altri workspace risultano inesistenti
+    if (!job || !(await sharesWorkspace(db, job.user_id, userId))) {
+      return errorResponse(corsHeaders, 404, "not_found", `Job ${parsed.data.jobId} not found`);
+    }
+
+    const { data: items, error: itemsError } = await db
+      .from("bulk_job_items")
+      .select("position, title, status, gelato_status, product_id, external_id, preview_url, error, attempts, reused, updated_at")
+      .eq("job_id", job.id)
+      .order("position");
+    if (itemsError) throw new Error(itemsError.message);
+
+    const completed = items.filter((i) => !IN_PROGRESS.includes(i.status)).length;
+
+    return new Response(
+      JSON.stringify({
+        id: job.id,
+        status: job.status,
+        templateId: job.template_id,
+        storeId: job.store_id ?? undefined,
+        publish: job.publish,
+        salesChannels: job.sales_channels ?? [],
+        total: job.total,
+        completed,
+        successCount: items.filter((i) => i.status === "active").length,
+        errorCount: completed - items.filter((i) => i.status === "active").length,
+        error: job.error ?? undefined,
+        createdAt: job.created_at,
+        updatedAt: job.updated_at,
+        finishedAt: job.finished_at ?? undefined,
+        cancelRequestedAt: job.cancel_requested_at ?? undefined,
+        items: items.map((i) => ({
+          position: i.position,
+          title: i.title,
+          status: i.status,
+          gelatoStatus: i.gelato_status ?? undefined,
+          productId: i.product_id ?? undefined,
+          externalId: i.external_id ?? undefined,
+          previewUrl: i.preview_url ?? undefined,
+          error: i.error ?? undefined,
+          attempts: i.attempts,
+          reused: i.reused,
+          updatedAt: i.updated_at,
+        })),
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  } catch (error) {
+    console.error("Error in gelato-job-status:", error);
+    return errorResponse(corsHeaders, 500, "internal_error", error instanceof Error ? error.message : String(error));
+  }
+});
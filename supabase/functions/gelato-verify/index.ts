@@ -0,0 +1,41 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { verifyStoreCredentials } from "../_shared/gelato-store.ts";
+import { VerifyRequestSchema } from "../_shared/bulk-schemas.ts";
+import { errorResponse, readJsonBody, validationErrorResponse } from "../_shared/errors.ts";
+import { createAdminClient } from "../_shared/supabase-admin.ts";
+import { getRequestUserId, unauthorizedResponse } from "../_shared/auth.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST,OPTIONS",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Verifica chiave API + store ID forniti dall'utente e restituisce i metadati dello store.
+// Stesso controllo che gelato-connections fa prima di salvare, senza salvare nulla.
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    if (!(await getRequestUserId(createAdminClient(), req))) return unauthorizedResponse(corsHeaders);
+
+    const body = await readJsonBody(req);
+    if (body === undefined) return errorResponse(corsHeaders, 400, "invalid_json", "Body must be JSON { apiKey, storeId }");
+    const parsed = VerifyRequestSchema.safeParse(body);
+    if (!parsed.success) return validationErrorResponse(corsHeaders, parsed.error);
+
+    const { apiKey, storeId } = parsed.data;
+    // mini-log non sensibile (solo prefisso/lunghezza)
+    console.log(`[verify] store ${storeId}, key prefix:`, apiKey.slice(0, 6), "len:", apiKey.length);
+
+    const verification = await verifyStoreCredentials(corsHeaders, storeId, apiKey);
+    if (!verification.ok) return verification.response;
+
+    return new Response(JSON.stringify({ store: verification.store }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error in gelato-verify:", error);
+    return errorResponse(corsHeaders, 500, "internal_error", error instanceof Error ? error.message : String(error));
+  }
+});
@@ -0,0 +1,42 @@
+-- Job asincroni di creazione prodotti: gelato-bulk-create crea il job e risponde subito,
+-- i prodotti vengono lavorati in background e gelato-job-status ne legge lo stato.
+
+create table public.bulk_jobs (
+  id uuid primary key default gen_random_uuid(),
+  -- queued → running → completed | failed
+  status text not null default 'queued' check (status in ('queued', 'running', 'completed', 'failed')),
+  template_id text not null,
+  store_id text,
+  publish boolean not null default false,
+  total integer not null default 0,
+  success_count integer not null default 0,
+  error_count integer not null default 0,
+  error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  finished_at timestamptz
+);
+
+create table public.bulk_job_items (
+  id bigint generated always as identity primary key,
+  job_id uuid not null references public.bulk_jobs (id) on delete cascade,
+  position integer not null,
+  title text not null,
+  -- pending → creating → polling → active | publishing_error | timeout | error
+  status text not null default 'pending',
+  request jsonb not null,
+  product_id text,
+  external_id text,
+  preview_url text,
+  error text,
+  attempts integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (job_id, position)
+);
+
+create index bulk_job_items_job_id_idx on public.bulk_job_items (job_id);
+
+-- Accesso solo dalle edge function (service role): nessuna policy per anon
+alter table public.bulk_jobs enable row level security;
+alter table public.bulk_job_items enable row level security;
@@ -0,0 +1,2 @@
+-- Ultimo stato letto da Gelato durante il polling, mostrato live nello stream SSE
+alter table public.bulk_job_items add column gelato_status text;
@@ -0,0 +1,22 @@
+-- Chiavi di idempotenza dei prodotti: una chiave già associata a un prodotto Gelato
+-- restituisce quel prodotto invece di crearne un duplicato.
+
+create table public.bulk_idempotency_keys (
+  store_id text not null,
+  key text not null,
+  title text not null,
+  template_id text not null,
+  job_id uuid references public.bulk_jobs (id) on delete set null,
+  -- null finché la creazione è in corso: la riga fa da prenotazione della chiave
+  product_id text,
+  status text,
+  external_id text,
+  preview_url text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  primary key (store_id, key)
+);
+
+alter table public.bulk_idempotency_keys enable row level security;
+
+alter table public.bulk_job_items add column reused boolean not null default false;
@@ -0,0 +1,2 @@
+-- Canali di vendita scelti dal client per il job (vuoto = bozza)
+alter table public.bulk_jobs add column sales_channels text[] not null default '{}';
@@ -0,0 +1,26 @@
+-- Credenziali Gelato cifrate: il browser conserva solo l'id della connessione.
+-- La chiave API è cifrata con AES-GCM dalle edge function (CREDENTIALS_ENCRYPTION_KEY).
+
+create table public.store_connections (
+  id uuid primary key default gen_random_uuid(),
+  -- utente Supabase Auth proprietario (null per connessioni create senza login)
+  user_id uuid references auth.users (id) on delete cascade,
+  store_id text not null,
+  store_name text not null,
+  currency text,
+  platform text,
+  sales_channels text[] not null default '{}',
+  key_ciphertext text not null,
+  key_iv text not null,
+  key_hint text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  rotated_at timestamptz
+);
+
+create index store_connections_user_id_idx on public.store_connections (user_id);
+
+-- Solo service role: nessuna policy, i ciphertext non sono mai leggibili dal client
+alter table public.store_connections enable row level security;
+
+alter table public.bulk_jobs add column connection_id uuid references public.store_connections (id) on delete set null;
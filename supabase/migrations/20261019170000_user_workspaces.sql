@@ -0,0 +1,111 @@
+-- Workspace per utente (Supabase Auth) e team: ogni riga ha un proprietario, i membri
+-- dello stesso team vedono le righe degli altri membri. Le edge function usano il service
+-- role e controllano l'accesso con public.shares_workspace; il client legge via RLS.
+
+create table public.teams (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table public.team_members (
+  team_id uuid not null references public.teams (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null default 'member' check (role in ('owner', 'member')),
+  created_at timestamptz not null default now(),
+  primary key (team_id, user_id)
+);
+
+create index team_members_user_id_idx on public.team_members (user_id);
+
+-- true se owner è l'utente stesso o un membro di un suo team
+create or replace function public.shares_workspace(owner uuid, viewer uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select owner is not null and viewer is not null and (
+    owner = viewer
+    or exists (
+      select 1
+      from public.team_members a
+      join public.team_members b on a.team_id = b.team_id
+      where a.user_id = owner and b.user_id = viewer
+    )
+  );
+$$;
+
+alter table public.teams enable row level security;
+alter table public.team_members enable row level security;
+
+-- security definer: una policy su team_members che interroga team_members andrebbe in ricorsione
+create or replace function public.is_team_member(team uuid, member uuid)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.team_members where team_id = team and user_id = member);
+$$;
+
+create policy "members read their teams" on public.teams
+  for select to authenticated
+  using (public.is_team_member(teams.id, auth.uid()));
+
+create policy "members read team membership" on public.team_members
+  for select to authenticated
+  using (public.is_team_member(team_members.team_id, auth.uid()));
+
+-- Job: proprietario = chi li ha creati
+alter table public.bulk_jobs add column user_id uuid references auth.users (id) on delete set null;
+create index bulk_jobs_user_id_idx on public.bulk_jobs (user_id, created_at desc);
+
+create policy "workspace reads jobs" on public.bulk_jobs
+  for select to authenticated
+  using (public.shares_workspace(user_id, auth.uid()));
+
+create policy "workspace reads job items" on public.bulk_job_items
+  for select to authenticated
+  using (exists (
+    select 1 from public.bulk_jobs j where j.id = job_id and public.shares_workspace(j.user_id, auth.uid())
+  ));
+
+-- Connessioni: il client non legge la tabella (ciphertext), passa da gelato-connections.
+-- Le connessioni senza proprietario create prima del login non vengono adottate:
+-- 20261019180000_store_connections_owner le elimina e rende user_id obbligatorio.
+
+-- Template salvati per store, prima in localStorage
+create table public.saved_templates (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  store_id text not null,
+  template_id text not null,
+  name text not null,
+  product_type text,
+  variants text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  unique (user_id, store_id, template_id)
+);
+
+alter table public.saved_templates enable row level security;
+
+create policy "workspace reads templates" on public.saved_templates
+  for select to authenticated
+  using (public.shares_workspace(user_id, auth.uid()));
+
+create policy "users save own templates" on public.saved_templates
+  for insert to authenticated
+  with check (user_id = auth.uid());
+
+create policy "users update own templates" on public.saved_templates
+  for update to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "users delete own templates" on public.saved_templates
+  for delete to authenticated
+  using (user_id = auth.uid());
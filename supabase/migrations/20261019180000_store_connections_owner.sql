@@ -0,0 +1,7 @@
+-- Connessioni senza proprietario (create prima del login): non si può sapere di chi
+-- fossero, quindi non vengono adottate da chi ne presenta l'id. Si eliminano e l'utente
+-- collega di nuovo lo store; d'ora in poi ogni connessione ha un proprietario.
+
+delete from public.store_connections where user_id is null;
+
+alter table public.store_connections alter column user_id set not null;
@@ -0,0 +1,33 @@
+-- Impostazioni per utente, prima solo in localStorage: preset delle regole (per store),
+-- tabella ratio e abbondanza (per store e template). Una riga per impostazione, valore in jsonb.
+-- template_id vuoto = impostazione dello store.
+
+create table public.user_settings (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  store_id text not null,
+  kind text not null check (kind in ('rules_preset', 'ratio_rules', 'bleed')),
+  template_id text not null default '',
+  value jsonb not null,
+  updated_at timestamptz not null default now(),
+  unique (user_id, store_id, kind, template_id)
+);
+
+alter table public.user_settings enable row level security;
+
+create policy "users read own settings" on public.user_settings
+  for select to authenticated
+  using (user_id = auth.uid());
+
+create policy "users save own settings" on public.user_settings
+  for insert to authenticated
+  with check (user_id = auth.uid());
+
+create policy "users update own settings" on public.user_settings
+  for update to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "users delete own settings" on public.user_settings
+  for delete to authenticated
+  using (user_id = auth.uid());
@@ -0,0 +1,8 @@
+-- Annullamento di un job: gelato-job-cancel imposta cancel_requested_at e gelato-bulk-create
+-- non avvia altri prodotti (item 'cancelled'). Quelli già inviati a Gelato terminano normalmente;
+-- il job si chiude come 'cancelled'.
+alter table public.bulk_jobs add column cancel_requested_at timestamptz;
+
+alter table public.bulk_jobs drop constraint bulk_jobs_status_check;
+alter table public.bulk_jobs add constraint bulk_jobs_status_check
+  check (status in ('queued', 'running', 'completed', 'failed', 'cancelled'));